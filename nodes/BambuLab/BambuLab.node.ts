@@ -1,4 +1,5 @@
 import type {
+	IBinaryKeyData,
 	ICredentialsDecrypted,
 	ICredentialTestFunctions,
 	IDataObject,
@@ -9,19 +10,50 @@ import type {
 	INodeTypeDescription,
 } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
+import { createHash } from 'crypto';
 
 import { BambuLabMqttClient } from './helpers/MqttHelper';
 import { BambuLabFtpClient } from './helpers/FtpHelper';
+import { BambuLabCameraClient } from './helpers/CameraHelper';
 import { BambuLabCommands } from './helpers/commands';
 import { FilamentProfileParser } from './helpers/FilamentProfileParser';
 import { FilamentMatcher } from './helpers/FilamentMatcher';
 import { PathValidator } from './helpers/PathValidator';
+import { PrinterStatusParser } from './helpers/PrinterStatusParser';
+import { ThreeMfMetadataParser } from './helpers/ThreeMfMetadataParser';
+import { PreflightChecker } from './helpers/PreflightChecker';
+import { PrintWaitCondition } from './helpers/PrintWaitCondition';
+import { ThreeMfArchive } from './helpers/ThreeMfArchive';
+import type { PlateSelection, ThumbnailSize } from './helpers/ThreeMfArchive';
+import { PrinterModels } from './helpers/PrinterModels';
+import {
+	AMS_FILAMENT,
+	DEFAULT_MIME_TYPE,
+	FILE_PATHS,
+	FILAMENT_MATCHING,
+	MIME_TYPES,
+	PRINTER_DEFAULTS,
+	TIMEOUTS,
+} from './helpers/constants';
 import type {
+	AnyCommand,
 	BambuLabCredentials,
+	BedType,
+	ColorMatchMode,
+	DryingMaterial,
+	FilamentSufficiencyMode,
+	FilamentTypeMatchMode,
 	LEDMode,
 	LEDNode,
 	FilamentMatchResult,
 	MatchedFilamentProfile,
+	GcodeState,
+	PreflightResult,
+	PrinterModel,
+	PrinterStatus,
+	PrintWaitTarget,
+	ThreeMfPlateInfo,
+	ThreeMfProjectInfo,
 } from './helpers/types';
 
 export class BambuLab implements INodeType {
@@ -63,6 +95,11 @@ export class BambuLab implements INodeType {
 						value: 'status',
 						description: 'Get printer status and information',
 					},
+					{
+						name: 'AMS',
+						value: 'ams',
+						description: 'Get the status of the AMS and its filament trays',
+					},
 					{
 						name: 'File',
 						value: 'file',
@@ -100,6 +137,18 @@ export class BambuLab implements INodeType {
 						action: 'Start a print job',
 						description: 'Start printing a file from the SD card',
 					},
+					{
+						name: 'Upload and Start',
+						value: 'uploadAndStart',
+						action: 'Upload a file and start printing',
+						description: 'Upload a file from binary data and start printing it',
+					},
+					{
+						name: 'Plan',
+						value: 'plan',
+						action: 'Plan a print job without starting it',
+						description: 'Dry run of Start: parse the file, match filaments to the AMS and return the print command without sending it',
+					},
 					{
 						name: 'Pause',
 						value: 'pause',
@@ -118,6 +167,18 @@ export class BambuLab implements INodeType {
 						action: 'Stop current print',
 						description: 'Stop the currently running print job',
 					},
+					{
+						name: 'Skip Objects',
+						value: 'skipObjects',
+						action: 'Skip objects of the current print',
+						description: 'Stop printing selected objects of the running print, e.g. after one part failed',
+					},
+					{
+						name: 'Wait for State',
+						value: 'waitFor',
+						action: 'Wait for a print state',
+						description: 'Wait until the print reaches a state, progress or layer',
+					},
 				],
 				default: 'start',
 			},
@@ -130,13 +191,45 @@ export class BambuLab implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['print'],
-						operation: ['start'],
+						operation: ['start', 'plan'],
 					},
 				},
 				default: '',
 				required: true,
 				placeholder: 'model.gcode.3mf',
-				description: 'Name of the .3mf file on the printer (e.g., model.3mf or model.gcode.3mf). Must be a sliced project file exported from Bambu Studio.',
+				description: 'Name of the file on the printer: a sliced .3mf project exported from Bambu Studio (e.g., model.gcode.3mf) or a plain G-code file (e.g., calibration.gcode). Options that read the project, such as auto-detect, plate and thumbnail, require a .3mf file.',
+			},
+
+			// Print: Upload and Start - Binary Property
+			{
+				displayName: 'Input Binary Field',
+				name: 'binaryPropertyName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['print'],
+						operation: ['uploadAndStart'],
+					},
+				},
+				default: 'data',
+				required: true,
+				description: 'Name of the binary property that contains the sliced .3mf or plain .gcode file',
+			},
+
+			// Print: Upload and Start - File Name
+			{
+				displayName: 'File Name',
+				name: 'fileName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['print'],
+						operation: ['uploadAndStart'],
+					},
+				},
+				default: '',
+				placeholder: 'model.gcode.3mf',
+				description: 'Name for the file on the printer. Leave empty to use the file name of the binary data.',
 			},
 
 			// Print: Start - Options
@@ -148,7 +241,7 @@ export class BambuLab implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['print'],
-						operation: ['start'],
+						operation: ['start', 'uploadAndStart', 'plan'],
 					},
 				},
 				default: {},
@@ -160,6 +253,182 @@ export class BambuLab implements INodeType {
 						default: false,
 						description: 'Automatically detect filament profiles and AMS mapping from the .3mf file on the printer. The file will be downloaded via FTP and parsed. If detection fails, the print operation will fail with an error. When enabled, Use AMS and AMS Mapping options are ignored.',
 					},
+					{
+						displayName: 'Color Matching',
+						name: 'colorMatching',
+						type: 'options',
+						options: [
+							{
+								name: 'Exact',
+								value: 'exact',
+								description: 'The AMS tray color must be identical to the slicer color',
+							},
+							{
+								name: 'Tolerant',
+								value: 'tolerant',
+								description: 'The AMS tray color may differ from the slicer color up to the color tolerance',
+							},
+						],
+						default: 'exact',
+						description: 'How filament colors from the .3mf file are compared to the AMS trays during auto-detection',
+						displayOptions: {
+							show: {
+								autoDetectFilaments: [true],
+							},
+						},
+					},
+					{
+						displayName: 'Color Tolerance',
+						name: 'colorTolerance',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+							numberPrecision: 1,
+						},
+						default: FILAMENT_MATCHING.DEFAULT_COLOR_TOLERANCE,
+						description: 'Maximum perceptual color difference (CIEDE2000) for tolerant matching. Around 1 is barely visible, 10 allows slightly different shades of the same color (e.g. #000000 and #161616).',
+						displayOptions: {
+							show: {
+								autoDetectFilaments: [true],
+								colorMatching: ['tolerant'],
+							},
+						},
+					},
+					{
+						displayName: 'Filament Type Matching',
+						name: 'typeMatching',
+						type: 'options',
+						options: [
+							{
+								name: 'Equivalent Types',
+								value: 'equivalent',
+								description: 'Compatible types of the same family match, e.g. PLA and PLA Matte or PETG and PETG HF',
+							},
+							{
+								name: 'Exact Type',
+								value: 'exact',
+								description: 'The AMS tray type must be identical to the slicer type',
+							},
+						],
+						default: 'equivalent',
+						description: 'How filament types from the .3mf file are compared to the AMS trays during auto-detection. Identical types are always preferred.',
+						displayOptions: {
+							show: {
+								autoDetectFilaments: [true],
+							},
+						},
+					},
+					{
+						displayName: 'Filament Type Equivalences',
+						name: 'typeEquivalences',
+						type: 'string',
+						typeOptions: {
+							rows: 4,
+						},
+						default: '',
+						placeholder: 'PLA: PLA Matte, PLA Glow\nPETG: PETG HF, PETG-CF',
+						description: 'Custom type families, one per line: family name, colon, comma-separated equivalent types. A family replaces the built-in family with the same name (PLA, PETG, ABS, ASA, TPU, PA, PC).',
+						displayOptions: {
+							show: {
+								autoDetectFilaments: [true],
+								typeMatching: ['equivalent'],
+							},
+						},
+					},
+					{
+						displayName: 'Filament Sufficiency Check',
+						name: 'filamentCheck',
+						type: 'options',
+						options: [
+							{
+								name: 'Fail',
+								value: 'fail',
+								description: 'Do not start the print when a tray does not hold enough filament',
+							},
+							{
+								name: 'Off',
+								value: 'off',
+								description: 'Do not compare filament usage with the AMS',
+							},
+							{
+								name: 'Warn',
+								value: 'warn',
+								description: 'Start the print and return a warning when a tray does not hold enough filament',
+							},
+						],
+						default: 'warn',
+						description: 'Compare the filament usage of the plate with the filament left on each matched AMS tray (spool weight × remaining percent). Trays without an estimate are not checked.',
+						displayOptions: {
+							show: {
+								autoDetectFilaments: [true],
+							},
+						},
+					},
+					{
+						displayName: 'Plate',
+						name: 'plate',
+						type: 'options',
+						options: [
+							{
+								name: 'First Sliced Plate',
+								value: 'first',
+								description: 'Print the first plate that contains sliced G-code',
+							},
+							{
+								name: 'Plate Number',
+								value: 'number',
+								description: 'Print a specific plate of a multi-plate project',
+							},
+						],
+						default: 'number',
+						description: 'Which plate of the project to print. The .3mf file is downloaded via FTP to check that the plate contains sliced G-code. Without this option plate 1 is printed.',
+					},
+					{
+						displayName: 'Plate Number',
+						name: 'plateNumber',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 1,
+						description: 'Number of the plate to print, as shown in Bambu Studio (starting at 1)',
+						displayOptions: {
+							show: {
+								plate: ['number'],
+							},
+						},
+					},
+					{
+						displayName: 'Bed Type',
+						name: 'bedType',
+						type: 'options',
+						options: [
+							{
+								name: 'Auto',
+								value: 'auto',
+								description: 'Let the printer decide (no bed type check)',
+							},
+							{
+								name: 'Cool Plate',
+								value: 'cool_plate',
+							},
+							{
+								name: 'Engineering Plate',
+								value: 'eng_plate',
+							},
+							{
+								name: 'High Temp Plate',
+								value: 'hot_plate',
+								description: 'High Temp Plate or Smooth PEI Plate',
+							},
+							{
+								name: 'Textured PEI Plate',
+								value: 'textured_plate',
+							},
+						],
+						default: 'auto',
+						description: 'Build plate installed on the printer, used by the printer to detect a plate that does not match the file. If not set and Auto-Detect Filaments is enabled, the bed type the file was sliced for is used.',
+					},
 					{
 						displayName: 'Bed Leveling',
 						name: 'bedLeveling',
@@ -212,7 +481,7 @@ export class BambuLab implements INodeType {
 						name: 'amsMapping',
 						type: 'string',
 						default: '0',
-						description: 'Comma-separated tray IDs mapping to filament profiles in the .3mf file. Each position corresponds to a profile from the slicer in order. Use -1 for unused profiles. Example: "0" for single filament in slot 1, or "2,-1,0" for 3 profiles where first uses slot 3, second is unused, third uses slot 1. For A1 series: 0-3 = AMS slots 1-4.',
+						description: 'Comma-separated tray IDs mapping to filament profiles in the .3mf file. Each position corresponds to a profile from the slicer in order. Use -1 for unused profiles. Example: "0" for single filament in slot 1, or "2,-1,0" for 3 profiles where first uses slot 3, second is unused, third uses slot 1. Tray IDs are global across AMS units: 0-3 = AMS 1 slots 1-4, 4-7 = AMS 2 slots 1-4, and so on. Use 254 for the external spool.',
 						displayOptions: {
 							show: {
 								autoDetectFilaments: [false],
@@ -220,6 +489,249 @@ export class BambuLab implements INodeType {
 							},
 						},
 					},
+					{
+						displayName: 'Pre-Flight Check',
+						name: 'preflightCheck',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to check before printing that the file was sliced for this printer model and the installed nozzle diameter, and that the printer is idle or finished. The print fails with a list of reasons if a check fails. The .3mf file is downloaded via FTP to read it.',
+					},
+					{
+						displayName: 'Include Thumbnail',
+						name: 'includeThumbnail',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to return the thumbnail of the printed plate as binary PNG data in the "thumbnail" field, e.g. for notifications. The .3mf file is downloaded via FTP to read it.',
+					},
+					{
+						displayName: 'Thumbnail Size',
+						name: 'thumbnailSize',
+						type: 'options',
+						options: [
+							{
+								name: 'Large',
+								value: 'large',
+								description: 'Plate preview as shown in Bambu Studio (plate_N.png)',
+							},
+							{
+								name: 'Small',
+								value: 'small',
+								description: 'Small plate preview as shown on the printer (plate_N_small.png)',
+							},
+						],
+						default: 'large',
+						displayOptions: {
+							show: {
+								includeThumbnail: [true],
+							},
+						},
+					},
+				],
+			},
+
+			// Print: Skip Objects - Objects
+			{
+				displayName: 'Objects',
+				name: 'objects',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['print'],
+						operation: ['skipObjects'],
+					},
+				},
+				default: '',
+				required: true,
+				placeholder: 'Bracket, 120',
+				description: 'Comma-separated object names or identify IDs to skip. Names select all objects with that name and require the File Name. Use File: Inspect to list the objects of a plate.',
+			},
+
+			// Print: Skip Objects - File Name
+			{
+				displayName: 'File Name',
+				name: 'fileName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['print'],
+						operation: ['skipObjects'],
+					},
+				},
+				default: '',
+				placeholder: 'model.gcode.3mf',
+				description: 'Name of the .3mf file that is being printed. It is downloaded via FTP to look up object names and to check the identify IDs. Leave empty to skip objects by identify ID without checking them.',
+			},
+
+			// Print: Skip Objects - Plate
+			{
+				displayName: 'Plate',
+				name: 'plate',
+				type: 'number',
+				displayOptions: {
+					show: {
+						resource: ['print'],
+						operation: ['skipObjects'],
+					},
+				},
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 1,
+				description: 'Number of the plate that is being printed, as shown in Bambu Studio (starting at 1)',
+			},
+
+			// Print: Wait For - Condition
+			{
+				displayName: 'Wait Until',
+				name: 'waitCondition',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['print'],
+						operation: ['waitFor'],
+					},
+				},
+				options: [
+					{
+						name: 'State Reached',
+						value: 'state',
+						description: 'Wait until the print reaches a state',
+					},
+					{
+						name: 'Progress Reached',
+						value: 'progress',
+						description: 'Wait until the print progress reaches a percentage',
+					},
+					{
+						name: 'Layer Reached',
+						value: 'layer',
+						description: 'Wait until the print reaches a layer',
+					},
+				],
+				default: 'state',
+			},
+
+			// Print: Wait For - Target State
+			{
+				displayName: 'Target State',
+				name: 'targetState',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['print'],
+						operation: ['waitFor'],
+						waitCondition: ['state'],
+					},
+				},
+				options: [
+					{
+						name: 'Failed',
+						value: 'FAILED',
+					},
+					{
+						name: 'Finished',
+						value: 'FINISH',
+					},
+					{
+						name: 'Paused',
+						value: 'PAUSE',
+					},
+					{
+						name: 'Running',
+						value: 'RUNNING',
+					},
+				],
+				default: 'FINISH',
+				description: 'The print state (gcode_state) to wait for',
+			},
+
+			// Print: Wait For - Progress Threshold
+			{
+				displayName: 'Progress (%)',
+				name: 'progressThreshold',
+				type: 'number',
+				displayOptions: {
+					show: {
+						resource: ['print'],
+						operation: ['waitFor'],
+						waitCondition: ['progress'],
+					},
+				},
+				default: 50,
+				typeOptions: {
+					minValue: 0,
+					maxValue: 100,
+				},
+				description: 'Continue once print progress is at or above this percentage',
+			},
+
+			// Print: Wait For - Layer Threshold
+			{
+				displayName: 'Layer',
+				name: 'layerThreshold',
+				type: 'number',
+				displayOptions: {
+					show: {
+						resource: ['print'],
+						operation: ['waitFor'],
+						waitCondition: ['layer'],
+					},
+				},
+				default: 1,
+				typeOptions: {
+					minValue: 1,
+				},
+				description: 'Continue once the current layer is at or above this number',
+			},
+
+			// Print: Wait For - Options
+			{
+				displayName: 'Options',
+				name: 'waitOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: {
+					show: {
+						resource: ['print'],
+						operation: ['waitFor'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Max Wait (Minutes)',
+						name: 'maxWaitMinutes',
+						type: 'number',
+						default: 120,
+						typeOptions: {
+							minValue: 1,
+						},
+						description: 'Fail if the condition is not reached within this time',
+					},
+					{
+						displayName: 'Progress Output Interval (Minutes)',
+						name: 'progressInterval',
+						type: 'number',
+						default: 5,
+						typeOptions: {
+							minValue: 1,
+						},
+						description: 'Record a progress snapshot at this interval while waiting. Snapshots are output together with the final result when the wait ends.',
+					},
+					{
+						displayName: 'Require Print Activity',
+						name: 'requirePrintActivity',
+						type: 'boolean',
+						default: true,
+						description: 'Whether to ignore the condition until the printer reports print activity (PREPARE, RUNNING, PAUSE or a state change). Right after a start the printer still reports the previous job, e.g. FINISH at 100%.',
+					},
+					{
+						displayName: 'Stop On Failure',
+						name: 'stopOnFailure',
+						type: 'boolean',
+						default: true,
+						description: 'Whether to fail immediately if the print enters the FAILED state while waiting for another condition',
+					},
 				],
 			},
 
@@ -257,6 +769,343 @@ export class BambuLab implements INodeType {
 				default: 'getCurrent',
 			},
 
+			// Status: Get Current - Include Raw Report
+			{
+				displayName: 'Include Raw Report',
+				name: 'includeRawReport',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['status'],
+						operation: ['getCurrent'],
+					},
+				},
+				default: false,
+				description: 'Whether to include the raw MQTT report (as sent by the printer) next to the normalized status',
+			},
+
+			// Status: Get Current - Include Field Timestamps
+			{
+				displayName: 'Include Field Timestamps',
+				name: 'includeFieldTimestamps',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['status'],
+						operation: ['getCurrent'],
+					},
+				},
+				default: false,
+				description: 'Whether to include when each raw report field was last reported (keyed by path, e.g. print.mc_percent), to tell fresh values from values kept from earlier reports',
+			},
+
+			// ==================== AMS OPERATIONS ====================
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['ams'],
+					},
+				},
+				options: [
+					{
+						name: 'Get Status',
+						value: 'getStatus',
+						action: 'Get AMS tray status',
+						description: 'Get one item per AMS tray with filament, remaining amount and humidity',
+					},
+					{
+						name: 'Set Tray Filament',
+						value: 'setTrayFilament',
+						action: 'Set the filament of an AMS tray',
+						description: 'Set filament type, color, preset and nozzle temperatures of a tray, e.g. for spools without RFID tag',
+					},
+					{
+						name: 'Load Filament',
+						value: 'loadFilament',
+						action: 'Load filament from a tray',
+						description: 'Load filament from an AMS tray or the external spool, unloading the current filament first',
+					},
+					{
+						name: 'Unload Filament',
+						value: 'unloadFilament',
+						action: 'Unload the current filament',
+						description: 'Unload the currently loaded filament',
+					},
+					{
+						name: 'Start Drying',
+						value: 'startDrying',
+						action: 'Start drying filament in an AMS',
+						description: 'Start a drying cycle in an AMS 2 Pro or AMS HT',
+					},
+					{
+						name: 'Stop Drying',
+						value: 'stopDrying',
+						action: 'Stop drying filament in an AMS',
+						description: 'Stop the drying cycle of an AMS 2 Pro or AMS HT',
+					},
+				],
+				default: 'getStatus',
+			},
+
+			// AMS: Get Status - Include External Spool
+			{
+				displayName: 'Include External Spool',
+				name: 'includeExternalSpool',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['ams'],
+						operation: ['getStatus'],
+					},
+				},
+				default: true,
+				description: 'Whether to include the external spool holder as an item (tray ID 254)',
+			},
+
+			// AMS: Set Tray Filament / Load Filament - Tray ID
+			{
+				displayName: 'Tray ID',
+				name: 'trayId',
+				type: 'number',
+				displayOptions: {
+					show: {
+						resource: ['ams'],
+						operation: ['setTrayFilament', 'loadFilament'],
+					},
+				},
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 0,
+				required: true,
+				description: 'Global tray ID: 0-3 = AMS 1 slots 1-4, 4-7 = AMS 2 slots 1-4, and so on. Use 254 for the external spool.',
+			},
+
+			// AMS: Set Tray Filament - Type
+			{
+				displayName: 'Filament Type',
+				name: 'filamentType',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['ams'],
+						operation: ['setTrayFilament'],
+					},
+				},
+				default: '',
+				required: true,
+				placeholder: 'PLA',
+				description: 'Filament type as shown in Bambu Studio, e.g. PLA, PETG, ABS or TPU',
+			},
+
+			// AMS: Set Tray Filament - Color
+			{
+				displayName: 'Color',
+				name: 'filamentColor',
+				type: 'color',
+				displayOptions: {
+					show: {
+						resource: ['ams'],
+						operation: ['setTrayFilament'],
+					},
+				},
+				default: '#FFFFFF',
+				required: true,
+				description: 'Filament color',
+			},
+
+			// AMS: Set Tray Filament - Options
+			{
+				displayName: 'Options',
+				name: 'filamentOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['ams'],
+						operation: ['setTrayFilament'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Filament Preset ID',
+						name: 'presetId',
+						type: 'string',
+						default: '',
+						placeholder: 'GFL99',
+						description: 'Bambu Studio filament preset (tray_info_idx), e.g. GFA00 for Bambu PLA Basic. Defaults to the generic preset of the type (e.g. GFL99 for Generic PLA).',
+					},
+					{
+						displayName: 'Max Nozzle Temperature',
+						name: 'nozzleTempMax',
+						type: 'number',
+						default: 230,
+						description: 'Maximum nozzle temperature in °C. Defaults to the typical range of the type.',
+					},
+					{
+						displayName: 'Min Nozzle Temperature',
+						name: 'nozzleTempMin',
+						type: 'number',
+						default: 190,
+						description: 'Minimum nozzle temperature in °C. Defaults to the typical range of the type.',
+					},
+				],
+			},
+
+			// AMS: Load / Unload Filament - Options
+			{
+				displayName: 'Options',
+				name: 'filamentChangeOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['ams'],
+						operation: ['loadFilament', 'unloadFilament'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Max Wait (Minutes)',
+						name: 'maxWaitMinutes',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 5,
+						description: 'Maximum time to wait for the filament change. The operation fails if the change takes longer.',
+					},
+					{
+						displayName: 'Nozzle Temperature',
+						name: 'nozzleTemperature',
+						type: 'number',
+						default: 220,
+						description: 'Nozzle temperature in °C for the new filament. Defaults to the maximum nozzle temperature reported for the tray.',
+						displayOptions: {
+							show: {
+								'/operation': ['loadFilament'],
+							},
+						},
+					},
+					{
+						displayName: 'Wait for Completion',
+						name: 'waitForCompletion',
+						type: 'boolean',
+						default: true,
+						description: 'Whether to wait until the printer reports the new loaded tray (tray_now)',
+					},
+				],
+			},
+
+			// AMS: Start / Stop Drying - AMS ID
+			{
+				displayName: 'AMS ID',
+				name: 'amsId',
+				type: 'number',
+				displayOptions: {
+					show: {
+						resource: ['ams'],
+						operation: ['startDrying', 'stopDrying'],
+					},
+				},
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 0,
+				required: true,
+				description: 'ID of the AMS unit as returned by Get Status (amsId), e.g. 0 for the first AMS',
+			},
+
+			// AMS: Start Drying - Material
+			{
+				displayName: 'Material',
+				name: 'dryingMaterial',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['ams'],
+						operation: ['startDrying'],
+					},
+				},
+				options: [
+					{
+						name: 'ABS',
+						value: 'ABS',
+					},
+					{
+						name: 'ASA',
+						value: 'ASA',
+					},
+					{
+						name: 'PA',
+						value: 'PA',
+					},
+					{
+						name: 'PC',
+						value: 'PC',
+					},
+					{
+						name: 'PETG',
+						value: 'PETG',
+					},
+					{
+						name: 'PLA',
+						value: 'PLA',
+					},
+					{
+						name: 'PVA',
+						value: 'PVA',
+					},
+					{
+						name: 'TPU',
+						value: 'TPU',
+					},
+				],
+				default: 'PLA',
+				description: 'Material in the AMS. Sets the recommended temperature and duration and limits the temperature so spools do not deform.',
+			},
+
+			// AMS: Start Drying - Options
+			{
+				displayName: 'Options',
+				name: 'dryingOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['ams'],
+						operation: ['startDrying'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Duration (Hours)',
+						name: 'durationHours',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+							maxValue: 24,
+						},
+						default: 8,
+						description: 'Drying time in hours. Defaults to the recommended time of the material.',
+					},
+					{
+						displayName: 'Temperature',
+						name: 'temperature',
+						type: 'number',
+						default: 55,
+						description: 'Drying temperature in °C. Defaults to the recommended temperature of the material and must not exceed its limit (e.g. 55 °C for PLA, 65 °C for PETG) or the limit of the AMS (65 °C for AMS 2 Pro, 85 °C for AMS HT).',
+					},
+				],
+			},
+
 			// ==================== FILE OPERATIONS ====================
 			{
 				displayName: 'Operation',
@@ -275,6 +1124,18 @@ export class BambuLab implements INodeType {
 						action: 'Upload a file',
 						description: 'Upload a file to the printer via FTP',
 					},
+					{
+						name: 'Download',
+						value: 'download',
+						action: 'Download a file',
+						description: 'Download a file from the printer as binary data',
+					},
+					{
+						name: 'Inspect',
+						value: 'inspect',
+						action: 'Inspect a 3MF project',
+						description: 'Read print time, weight, filaments, objects, printer, nozzle, bed type and layer height from a .3mf file on the printer',
+					},
 					{
 						name: 'List',
 						value: 'list',
@@ -287,8 +1148,40 @@ export class BambuLab implements INodeType {
 						action: 'Delete a file',
 						description: 'Delete a file from the printer SD card',
 					},
-				],
-				default: 'upload',
+				],
+				default: 'upload',
+			},
+
+			// File: Upload - Binary File
+			{
+				displayName: 'Binary File',
+				name: 'binaryData',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['upload'],
+					},
+				},
+				default: false,
+				description: 'Whether to upload the file from a binary property instead of text content. Use this for .3mf files.',
+			},
+
+			// File: Upload - Binary Property
+			{
+				displayName: 'Input Binary Field',
+				name: 'binaryPropertyName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['upload'],
+						binaryData: [true],
+					},
+				},
+				default: 'data',
+				required: true,
+				description: 'Name of the binary property that contains the file to upload',
 			},
 
 			// File: Upload - File Content
@@ -300,6 +1193,7 @@ export class BambuLab implements INodeType {
 					show: {
 						resource: ['file'],
 						operation: ['upload'],
+						binaryData: [false],
 					},
 				},
 				default: '',
@@ -322,9 +1216,8 @@ export class BambuLab implements INodeType {
 					},
 				},
 				default: '',
-				required: true,
 				placeholder: 'model.gcode',
-				description: 'Name for the uploaded file',
+				description: 'Name for the uploaded file. When uploading binary data, leave empty to use the file name of the binary data.',
 			},
 
 			// File: Upload - Remote Path
@@ -374,6 +1267,103 @@ export class BambuLab implements INodeType {
 				description: 'Full path to the file to delete',
 			},
 
+			// File: Download - File Path
+			{
+				displayName: 'File Path',
+				name: 'filePath',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['download'],
+					},
+				},
+				default: '',
+				required: true,
+				placeholder: '/timelapse/video.mp4',
+				description: 'Full path to the file to download',
+			},
+
+			// File: Inspect - File Path
+			{
+				displayName: 'File Path',
+				name: 'filePath',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['inspect'],
+					},
+				},
+				default: '',
+				required: true,
+				placeholder: '/model.gcode.3mf',
+				description: 'Full path to the .3mf file to inspect',
+			},
+
+			// File: Inspect - Options
+			{
+				displayName: 'Options',
+				name: 'inspectOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['inspect'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Include Thumbnails',
+						name: 'includeThumbnails',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to return the plate thumbnails as binary PNG data in the fields "thumbnail_1", "thumbnail_2", … (one per plate)',
+					},
+					{
+						displayName: 'Thumbnail Size',
+						name: 'thumbnailSize',
+						type: 'options',
+						options: [
+							{
+								name: 'Large',
+								value: 'large',
+								description: 'Plate preview as shown in Bambu Studio (plate_N.png)',
+							},
+							{
+								name: 'Small',
+								value: 'small',
+								description: 'Small plate preview as shown on the printer (plate_N_small.png)',
+							},
+						],
+						default: 'large',
+						displayOptions: {
+							show: {
+								includeThumbnails: [true],
+							},
+						},
+					},
+				],
+			},
+
+			// File: Download - Binary Property
+			{
+				displayName: 'Put Output File in Field',
+				name: 'binaryPropertyName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['download'],
+					},
+				},
+				default: 'data',
+				required: true,
+				description: 'Name of the binary property to write the downloaded file to',
+			},
+
 			// ==================== CAMERA OPERATIONS ====================
 			{
 				displayName: 'Operation',
@@ -396,12 +1386,28 @@ export class BambuLab implements INodeType {
 						name: 'Get Snapshot',
 						value: 'getSnapshot',
 						action: 'Get camera snapshot',
-						description: 'Get a snapshot from the printer camera',
+						description: 'Capture a JPEG image from the printer camera (A1 and P1 series)',
 					},
 				],
 				default: 'getStreamUrl',
 			},
 
+			// Camera: Get Snapshot - Binary Property
+			{
+				displayName: 'Put Output File in Field',
+				name: 'binaryPropertyName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['camera'],
+						operation: ['getSnapshot'],
+					},
+				},
+				default: 'data',
+				required: true,
+				description: 'Name of the binary property to write the JPEG image to',
+			},
+
 			// ==================== CONTROL OPERATIONS ====================
 			{
 				displayName: 'Operation',
@@ -576,16 +1582,25 @@ export class BambuLab implements INodeType {
 			// Track if MQTT connection has been established
 			let mqttConnected = false;
 
+			// Detected once per execution when a print is started
+			let printerModel: PrinterModel | undefined;
+
 			for (let i = 0; i < items.length; i++) {
 				try {
 					const resource = this.getNodeParameter('resource', i) as string;
 					const operation = this.getNodeParameter('operation', i) as string;
 
 					let responseData: IDataObject = {};
+					// Operations that return one item per entry (instead of responseData)
+					let responseItems: IDataObject[] | undefined;
+					let binaryResponse: IBinaryKeyData | undefined;
 
 					// Connect to MQTT once if needed for MQTT-based resources
 					if (
-						(resource === 'print' || resource === 'status' || resource === 'control') &&
+						(resource === 'print' ||
+							resource === 'status' ||
+							resource === 'ams' ||
+							resource === 'control') &&
 						!mqttConnected
 					) {
 						await mqttClient.connect();
@@ -595,70 +1610,225 @@ export class BambuLab implements INodeType {
 					// ==================== PRINT RESOURCE ====================
 					if (resource === 'print') {
 
-						if (operation === 'start') {
-							const fileName = this.getNodeParameter('fileName', i) as string;
+						if (operation === 'start' || operation === 'uploadAndStart' || operation === 'plan') {
+							// Plan: same steps as Start, but nothing is published to the printer
+							const dryRun = operation === 'plan';
+							let fileName = this.getNodeParameter('fileName', i, '') as string;
 							const options = this.getNodeParameter('printOptions', i, {}) as IDataObject;
+
+							// Upload and Start: the file comes from binary data and is uploaded before printing
+							let uploadBuffer: Buffer | undefined;
+							if (operation === 'uploadAndStart') {
+								const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
+								const binaryData = this.helpers.assertBinaryData(i, binaryPropertyName);
+								uploadBuffer = await this.helpers.getBinaryDataBuffer(i, binaryPropertyName);
+								fileName = fileName || binaryData.fileName || '';
+
+								if (!fileName) {
+									throw new NodeOperationError(
+										this.getNode(),
+										'File name is required. Set File Name or provide binary data with a file name.',
+										{ itemIndex: i },
+									);
+								}
+							}
 							const autoDetect = (options.autoDetectFilaments as boolean) ?? false;
+							const sufficiencyMode = (options.filamentCheck as FilamentSufficiencyMode) ?? 'warn';
+							const includeThumbnail = (options.includeThumbnail as boolean) ?? false;
+							const preflightCheck = (options.preflightCheck as boolean) ?? false;
+							let thumbnail: Buffer | null = null;
+							let preflight: PreflightResult | undefined;
+							let currentStatus: PrinterStatus | undefined;
+							let projectInfo: ThreeMfProjectInfo | undefined;
+							// Only set when selected; auto-detect reads it from the file otherwise
+							let bedType = options.bedType as BedType | undefined;
 
 							let amsMapping: number[] | undefined;
 							let useAMS = ((options.useAMS as boolean) ?? true);
 							let matchResult: FilamentMatchResult | undefined; // Store matching details for response
+							// Plan without auto-detect: matching problems are reported, Start would not match at all
+							const planWarnings: string[] = [];
 
-							if (autoDetect) {
-								// ==================== AUTO-DETECT MODE ====================
-								try {
-									// Step 1: Download .3mf file from printer via FTP
-									const ftpClient = new BambuLabFtpClient(credentials);
-									await ftpClient.connect();
+							// Plate selection is only validated when set, so existing workflows keep printing plate 1
+							const plateSelection: PlateSelection | undefined =
+								options.plate === 'first'
+									? 'first'
+									: options.plate === 'number'
+										? ((options.plateNumber as number) ?? FILE_PATHS.DEFAULT_PLATE)
+										: undefined;
+							let plate: number | undefined;
 
+							// Model-specific storage path and AMS slot limits
+							if (!printerModel) {
+								printerModel = await mqttClient.getPrinterModel();
+								commands.setPrinterModel(printerModel);
+							}
+
+							// Plain G-code has no project metadata, so options that read the .3mf file cannot be used.
+							// The gcode_file command has no fields for the bed, AMS and calibration options either,
+							// so they are rejected instead of being silently dropped
+							const gcodeFile = BambuLabCommands.isGcodeFile(fileName);
+							if (gcodeFile) {
+								const projectOptions = [
+									autoDetect ? 'Auto-Detect Filaments' : '',
+									plateSelection !== undefined ? 'Plate' : '',
+									includeThumbnail ? 'Include Thumbnail' : '',
+									preflightCheck ? 'Pre-Flight Check' : '',
+									options.bedType !== undefined ? 'Bed Type' : '',
+									options.useAMS !== undefined ? 'Use AMS' : '',
+									options.amsMapping ? 'AMS Mapping' : '',
+									options.bedLeveling !== undefined ? 'Bed Leveling' : '',
+									options.flowCalibration !== undefined ? 'Flow Calibration' : '',
+									options.vibrationCalibration !== undefined ? 'Vibration Calibration' : '',
+									options.layerInspect !== undefined ? 'Layer Inspect' : '',
+									options.timelapse !== undefined ? 'Timelapse' : '',
+								].filter((name) => name !== '');
+
+								if (projectOptions.length > 0) {
+									throw new NodeOperationError(
+										this.getNode(),
+										`${projectOptions.join(', ')} ${projectOptions.length === 1 ? 'requires' : 'require'} a .3mf project file, but ${fileName} is a plain G-code file`,
+										{ itemIndex: i },
+									);
+								}
+							}
+
+							if (
+								autoDetect ||
+								plateSelection !== undefined ||
+								includeThumbnail ||
+								preflightCheck ||
+								(dryRun && !gcodeFile)
+							) {
+								try {
+									// Step 1: Download .3mf file from printer via FTP (unless it is about to be uploaded)
 									// FTP path: Files are in root directory (/), not /sdcard/
 									// MQTT uses file:///sdcard/ but FTP exposes files at root
-								// Sanitize fileName to prevent path traversal attacks
-								const sanitizedFileName = PathValidator.sanitizePath(fileName);
+									// Sanitize fileName to prevent path traversal attacks
+									const sanitizedFileName = PathValidator.sanitizePath(fileName);
 									const remotePath = sanitizedFileName.startsWith('/')
 										? sanitizedFileName
 										: `/${sanitizedFileName}`;
 
-									const fileBuffer = await ftpClient.downloadFileAsBuffer(remotePath);
-									ftpClient.disconnect();
-
-									// Step 2: Parse filament profiles from .3mf
-									const parsedData = FilamentProfileParser.parseFromBuffer(fileBuffer);
+									const fileBuffer =
+										uploadBuffer ?? (await ftpClient.downloadFileAsBuffer(remotePath));
+									const archive = ThreeMfArchive.fromBuffer(fileBuffer);
 
-									// Step 3: Query current printer/AMS status
-									const currentStatus = await mqttClient.getStatus();
+									// Step 2: Make sure the selected plate contains sliced G-code
+									plate = archive.resolvePlate(plateSelection ?? FILE_PATHS.DEFAULT_PLATE);
 
-									// Step 4: Match profiles to current AMS configuration
-									matchResult = FilamentMatcher.matchProfilesToAMS(
-										parsedData.profiles,
-										currentStatus
-									);
+									if (includeThumbnail) {
+										thumbnail = archive.getPlateThumbnail(
+											plate,
+											(options.thumbnailSize as ThumbnailSize) ?? 'large',
+										);
+									}
 
-									// Auto-detect mode requires AMS to be detected
-									// If user enabled auto-detect but no AMS found, fail immediately
-									if (!matchResult.amsDetected) {
-										throw new Error(
-											'Auto-detect enabled but AMS not detected. The printer status query did not return AMS data. ' +
-											'This could be due to: (1) AMS not connected, (2) MQTT timing issue, or (3) printer not sending AMS data. ' +
-											'Please disable auto-detect and use manual AMS mapping, or ensure your AMS is properly connected.'
+									// Pre-flight: compare the file with the printer before anything is matched or uploaded
+									if (preflightCheck) {
+										currentStatus = await mqttClient.getStatus();
+										projectInfo = ThreeMfMetadataParser.parseFromArchive(archive);
+										preflight = PreflightChecker.check(
+											projectInfo,
+											plate,
+											currentStatus,
+											printerModel,
 										);
+
+										// A plan reports the failed checks instead of failing
+										if (!preflight.passed && !dryRun) {
+											throw new NodeOperationError(
+												this.getNode(),
+												`Pre-flight check failed for ${fileName}: ${preflight.reasons.join('; ')}`,
+												{ itemIndex: i },
+											);
+										}
 									}
 
-									// Use matched mapping (accounts for current slot positions)
-									amsMapping = matchResult.mapping;
-									useAMS = matchResult.amsDetected; // Use AMS only if detected
+									// A plan always reports the filament matches, even without auto-detect
+									if (autoDetect || dryRun) {
+										try {
+											// ==================== AUTO-DETECT MODE ====================
+											// Step 3: Parse filament profiles of the selected plate
+											const parsedData = FilamentProfileParser.parseFromArchive(
+												archive,
+												plate,
+												printerModel,
+											);
 
+											// Step 4: Query current printer/AMS status
+											currentStatus ??= await mqttClient.getStatus();
+
+											// Step 5: Match profiles to current AMS configuration
+											matchResult = FilamentMatcher.matchProfilesToAMS(
+												parsedData.profiles,
+												currentStatus,
+												{
+													colorMode: (options.colorMatching as ColorMatchMode) ?? 'exact',
+													colorTolerance: options.colorTolerance as number | undefined,
+													typeMode: (options.typeMatching as FilamentTypeMatchMode) ?? 'equivalent',
+													typeEquivalences: FilamentMatcher.parseTypeEquivalences(
+														(options.typeEquivalences as string) ?? '',
+													),
+													// A plan reports shortages instead of failing
+													sufficiencyMode: dryRun && sufficiencyMode === 'fail' ? 'warn' : sufficiencyMode,
+													// Without auto-detect the matches are informational only
+													unmatchedMode: autoDetect ? 'fail' : 'warn',
+												},
+											);
+										} catch (error) {
+											if (autoDetect) {
+												throw error;
+											}
+											planWarnings.push(
+												`Filament matching failed: ${error instanceof Error ? error.message : String(error)}`,
+											);
+										}
+									}
+
+									if (autoDetect && matchResult) {
+										// Auto-detect mode requires a loaded AMS tray or external spool
+										// If user enabled auto-detect but none was found, fail immediately
+										if (!matchResult.traysDetected) {
+											throw new Error(
+												'Auto-detect enabled but AMS not detected. The printer status query did not return AMS data or a loaded external spool. ' +
+												'This could be due to: (1) AMS not connected, (2) MQTT timing issue, or (3) printer not sending AMS data. ' +
+												'Please disable auto-detect and use manual AMS mapping, or ensure your AMS is properly connected.'
+											);
+										}
+
+										// Use matched mapping (accounts for current slot positions)
+										amsMapping = matchResult.mapping;
+										useAMS = matchResult.amsDetected; // Use AMS only if detected (external spool otherwise)
+
+										// Use the bed type the file was sliced for, unless one was selected
+										if (bedType === undefined) {
+											projectInfo ??= ThreeMfMetadataParser.parseFromArchive(archive);
+											bedType = ThreeMfMetadataParser.getBedType(projectInfo, plate) ?? undefined;
+										}
+									}
 								} catch (error) {
-									// FAIL OPERATION - per user's choice
+									if (error instanceof NodeOperationError) {
+										throw error;
+									}
+									const reason = error instanceof Error ? error.message : String(error);
+									if (autoDetect) {
+										// FAIL OPERATION - per user's choice
+										throw new NodeOperationError(
+											this.getNode(),
+											`Failed to auto-detect filament profiles from ${fileName}: ${reason}. Please disable auto-detect and use manual AMS mapping, or ensure the .3mf file is valid and accessible on the printer.`,
+											{ itemIndex: i }
+										);
+									}
 									throw new NodeOperationError(
 										this.getNode(),
-										`Failed to auto-detect filament profiles from ${fileName}: ${
-											error instanceof Error ? error.message : String(error)
-										}. Please disable auto-detect and use manual AMS mapping, or ensure the .3mf file is valid and accessible on the printer.`,
+										`Failed to read ${fileName}: ${reason}`,
 										{ itemIndex: i }
 									);
 								}
-							} else {
+							}
+
+							if (!autoDetect) {
 								// ==================== MANUAL MODE ====================
 								useAMS = (options.useAMS as boolean) ?? true;
 
@@ -682,7 +1852,19 @@ export class BambuLab implements INodeType {
 								}
 							}
 
-							// Build and send command
+							// Upload to the storage root, which the printer reads as file:///sdcard/
+							let md5: string | undefined;
+							if (uploadBuffer) {
+								const uploadResult = await ftpClient.uploadFile({
+									fileContent: uploadBuffer,
+									fileName,
+									remotePath: '/',
+								});
+								fileName = uploadResult.fileName;
+								md5 = createHash('md5').update(uploadBuffer).digest('hex');
+							}
+
+							// Build the command (sent below unless this is a plan)
 							const command = commands.startPrint(fileName, {
 								bedLeveling: options.bedLeveling as boolean | undefined,
 								flowCalibration: options.flowCalibration as boolean | undefined,
@@ -691,31 +1873,88 @@ export class BambuLab implements INodeType {
 								timelapse: options.timelapse as boolean | undefined,
 								useAMS,
 								amsMapping,
+								plate,
+								md5,
+								bedType,
 							});
 
-							await mqttClient.publishCommand(command);
+							const filamentMatches = matchResult?.matches.map((m: MatchedFilamentProfile) => ({
+								type: m.type,
+								color: m.colour,
+								presetId: m.presetId,
+								matchedSlot: m.matchedSlot,
+								matchedTrayId: m.matchedTrayId,
+								matchedAmsId: m.matchedAmsId,
+								matchQuality: m.matchQuality,
+								colorDistance: m.colorDistance,
+								typeMatch: m.typeMatch,
+								presetMatch: m.presetMatch,
+								currentType: m.currentType,
+								currentColor: m.currentColor,
+								currentPresetId: m.currentPresetId,
+								usedGrams: m.usedGrams,
+								remainingGrams: m.remainingGrams,
+								sufficient: m.sufficient,
+							}));
 
-							// Include detection info in response if auto-detect was used
-							responseData = {
-								success: true,
-								message: `Print job started: ${fileName}`,
-								fileName,
-								...(autoDetect && matchResult ? {
-									autoDetected: true,
-									filamentsDetected: matchResult.matches.length,
-									amsMapping: amsMapping,
-									amsDetected: matchResult.amsDetected,
-									totalSlots: matchResult.totalSlots,
-									filamentMatches: matchResult.matches.map((m: MatchedFilamentProfile) => ({
-										type: m.type,
-										color: m.colour,
-										matchedSlot: m.matchedSlot,
-										matchQuality: m.matchQuality,
-										currentType: m.currentType,
-										currentColor: m.currentColor,
-									})),
-								} : {}),
-							};
+							if (thumbnail) {
+								binaryResponse = {
+									thumbnail: await this.helpers.prepareBinaryData(
+										thumbnail,
+										`plate_${plate ?? FILE_PATHS.DEFAULT_PLATE}.png`,
+										MIME_TYPES.png,
+									),
+								};
+							}
+
+							if (dryRun) {
+								const filamentWarnings = matchResult?.warnings ?? [];
+								responseData = {
+									success: true,
+									dryRun: true,
+									message: `Print plan for ${fileName} (no command was sent to the printer)`,
+									fileName,
+									// G-code files have no plates
+									plate: gcodeFile ? null : (plate ?? FILE_PATHS.DEFAULT_PLATE),
+									printerModel: printerModel.name,
+									// Start would fail on a failed pre-flight or, with auto-detect, on filament shortages in 'fail' mode
+									readyToPrint:
+										(preflight?.passed ?? true) &&
+										!(autoDetect && sufficiencyMode === 'fail' && filamentWarnings.length > 0),
+									printCommand: command as unknown as IDataObject,
+									amsMapping: amsMapping ?? null,
+									amsDetected: matchResult?.amsDetected ?? false,
+									totalSlots: matchResult?.totalSlots ?? 0,
+									warnings: [...filamentWarnings, ...planWarnings],
+									filamentMatches: filamentMatches ?? [],
+									...(preflight ? { preflight: preflight as unknown as IDataObject } : {}),
+									...(includeThumbnail ? { thumbnailIncluded: thumbnail !== null } : {}),
+								};
+							} else {
+								await mqttClient.publishCommand(command);
+
+								// Include detection info in response if auto-detect was used
+								responseData = {
+									success: true,
+									message: `Print job started: ${fileName}`,
+									fileName,
+									// G-code files have no plates
+									plate: gcodeFile ? null : (plate ?? FILE_PATHS.DEFAULT_PLATE),
+									...(md5 ? { uploaded: true, md5 } : {}),
+									...(preflight ? { preflight: preflight as unknown as IDataObject } : {}),
+									...(includeThumbnail ? { thumbnailIncluded: thumbnail !== null } : {}),
+									...(autoDetect && matchResult ? {
+										autoDetected: true,
+										filamentsDetected: matchResult.matches.length,
+										amsMapping: amsMapping,
+										amsDetected: matchResult.amsDetected,
+										totalSlots: matchResult.totalSlots,
+										filamentWarnings: matchResult.warnings,
+										filamentMatches,
+										bedType: command.print.bed_type,
+									} : {}),
+								};
+							}
 						} else if (operation === 'pause') {
 							const command = commands.pausePrint();
 							await mqttClient.publishCommand(command);
@@ -728,6 +1967,127 @@ export class BambuLab implements INodeType {
 							const command = commands.stopPrint();
 							await mqttClient.publishCommand(command);
 							responseData = { success: true, message: 'Print stopped' };
+						} else if (operation === 'skipObjects') {
+							const objectSelection = this.getNodeParameter('objects', i) as string;
+							const fileName = this.getNodeParameter('fileName', i, '') as string;
+							const plate = this.getNodeParameter('plate', i, FILE_PATHS.DEFAULT_PLATE) as number;
+
+							// Names are looked up in the printed file; without it only identify IDs can be used
+							let plateInfo: ThreeMfPlateInfo | null = null;
+							if (fileName) {
+								const sanitizedFileName = PathValidator.sanitizePath(fileName);
+								const remotePath = sanitizedFileName.startsWith('/')
+									? sanitizedFileName
+									: `/${sanitizedFileName}`;
+								const projectInfo = ThreeMfMetadataParser.parseFromBuffer(
+									await ftpClient.downloadFileAsBuffer(remotePath),
+								);
+								plateInfo = projectInfo.plates.find((p) => p.plate === plate) ?? null;
+
+								if (!plateInfo) {
+									throw new NodeOperationError(
+										this.getNode(),
+										`Plate ${plate} not found in ${fileName}. Available plates: ${projectInfo.plates.map((p) => p.plate).join(', ') || 'none'}`,
+										{ itemIndex: i },
+									);
+								}
+							}
+
+							const objects = ThreeMfMetadataParser.selectObjects(objectSelection, plateInfo);
+
+							// Skipping every object would leave nothing to print
+							if (
+								plateInfo &&
+								objects.length === plateInfo.objects.filter((o) => o.identifyId !== null).length
+							) {
+								throw new NodeOperationError(
+									this.getNode(),
+									'All objects of the plate are selected. Use the Stop operation to cancel the print instead.',
+									{ itemIndex: i },
+								);
+							}
+
+							const objectIds = objects.map((object) => object.identifyId as number);
+							const command = commands.skipObjects(objectIds);
+							await mqttClient.publishCommand(command);
+
+							responseData = {
+								success: true,
+								message: `Skipped ${objectIds.length} object(s)`,
+								objectIds,
+								objects: objects as unknown as IDataObject[],
+							};
+						} else if (operation === 'waitFor') {
+							const waitCondition = this.getNodeParameter('waitCondition', i) as string;
+							const waitOptions = this.getNodeParameter('waitOptions', i, {}) as IDataObject;
+							const maxWaitMs =
+								((waitOptions.maxWaitMinutes as number) ?? TIMEOUTS.WAIT_FOR_STATE / 60000) * 60000;
+							const progressIntervalMs = ((waitOptions.progressInterval as number) ?? 0) * 60000;
+							const stopOnFailure = (waitOptions.stopOnFailure as boolean) ?? true;
+							const requirePrintActivity = (waitOptions.requirePrintActivity as boolean) ?? true;
+
+							const targetState =
+								waitCondition === 'state'
+									? (this.getNodeParameter('targetState', i) as GcodeState)
+									: undefined;
+							const threshold =
+								waitCondition === 'progress'
+									? (this.getNodeParameter('progressThreshold', i) as number)
+									: waitCondition === 'layer'
+										? (this.getNodeParameter('layerThreshold', i) as number)
+										: 0;
+
+							const summarize = (status: PrinterStatus): IDataObject => ({
+								state: status.state,
+								progress: status.progress.percent,
+								layer: status.progress.layer,
+								totalLayers: status.progress.totalLayers,
+								remainingTime: status.progress.remainingMinutes,
+								fileName: status.progress.fileName,
+							});
+
+							const target: PrintWaitTarget =
+								waitCondition === 'state'
+									? { type: 'state', state: targetState as GcodeState }
+									: waitCondition === 'progress'
+										? { type: 'progress', percent: threshold }
+										: { type: 'layer', layer: threshold };
+							const condition = new PrintWaitCondition(target, {
+								requirePrintActivity,
+								stopOnFailure,
+							});
+
+							const startedAt = Date.now();
+							const progressUpdates: IDataObject[] = [];
+
+							const status = await mqttClient.waitForStatus(
+								(current) => condition.check(current),
+								{
+									timeout: maxWaitMs,
+									progressInterval: progressIntervalMs,
+									onProgress: (current) =>
+										progressUpdates.push({
+											type: 'progress',
+											...summarize(current),
+											timestamp: new Date().toISOString(),
+										}),
+								},
+							);
+
+							// Progress snapshots are buffered and output before the final result
+							for (const update of progressUpdates) {
+								returnData.push({ json: update, pairedItem: { item: i } });
+							}
+
+							responseData = {
+								type: 'result',
+								success: true,
+								message: `Wait condition reached: ${
+									targetState ?? `${waitCondition} >= ${threshold}`
+								}`,
+								...summarize(status),
+								waitedSeconds: Math.round((Date.now() - startedAt) / 1000),
+							};
 						} else {
 							throw new NodeOperationError(
 								this.getNode(),
@@ -740,30 +2100,45 @@ export class BambuLab implements INodeType {
 					// ==================== STATUS RESOURCE ====================
 					else if (resource === 'status') {
 						if (operation === 'getCurrent') {
-							const status = await mqttClient.getStatus();
-							responseData = status as unknown as IDataObject;
+							const includeRawReport = this.getNodeParameter('includeRawReport', i, false) as boolean;
+							const includeFieldTimestamps = this.getNodeParameter(
+								'includeFieldTimestamps',
+								i,
+								false,
+							) as boolean;
+							const report = await mqttClient.getReport();
+							const stateStore = mqttClient.getStateStore();
+							responseData = {
+								...(PrinterStatusParser.parse(report) as unknown as IDataObject),
+								...(includeRawReport ? { raw: report as unknown as IDataObject } : {}),
+								...(includeFieldTimestamps
+									? {
+											lastUpdate: stateStore.getLastUpdate()?.toISOString() ?? null,
+											fieldTimestamps: Object.fromEntries(
+												Object.entries(stateStore.getFieldTimestamps()).map(([path, date]) => [
+													path,
+													date.toISOString(),
+												]),
+											),
+										}
+									: {}),
+							};
 						} else if (operation === 'getProgress') {
 							const status = await mqttClient.getStatus();
 							responseData = {
-								progress: status.mc_percent || 0,
-								layer: status.layer_num || 0,
-								totalLayers: status.total_layer_num || 0,
-								remainingTime: status.mc_remaining_time || 0,
-								fileName: status.gcode_file || '',
-								state: status.gcode_state || 'UNKNOWN',
+								progress: status.progress.percent,
+								layer: status.progress.layer,
+								totalLayers: status.progress.totalLayers,
+								remainingTime: status.progress.remainingMinutes,
+								fileName: status.progress.fileName,
+								state: status.state,
 							};
 						} else if (operation === 'getTemperature') {
 							const status = await mqttClient.getStatus();
 							responseData = {
-								nozzle: {
-									current: status.nozzle_temper || 0,
-									target: status.nozzle_target_temper || 0,
-								},
-								bed: {
-									current: status.bed_temper || 0,
-									target: status.bed_target_temper || 0,
-								},
-								chamber: status.chamber_temper || 0,
+								nozzle: status.temperatures.nozzle,
+								bed: status.temperatures.bed,
+								chamber: status.temperatures.chamber ?? 0,
 							};
 						} else {
 							throw new NodeOperationError(
@@ -774,13 +2149,227 @@ export class BambuLab implements INodeType {
 						}
 					}
 
+					// ==================== AMS RESOURCE ====================
+					else if (resource === 'ams') {
+						if (operation === 'getStatus') {
+							const includeExternalSpool = this.getNodeParameter(
+								'includeExternalSpool',
+								i,
+								true,
+							) as boolean;
+							const status = await mqttClient.getStatus();
+
+							responseItems = PrinterStatusParser.listTrays(status)
+								.filter((tray) => includeExternalSpool || tray.amsId !== null)
+								.map((tray) => tray as unknown as IDataObject);
+						} else if (operation === 'loadFilament' || operation === 'unloadFilament') {
+							const load = operation === 'loadFilament';
+							const trayId = load ? (this.getNodeParameter('trayId', i) as number) : null;
+							const changeOptions = this.getNodeParameter(
+								'filamentChangeOptions',
+								i,
+								{},
+							) as IDataObject;
+							const waitForCompletion = (changeOptions.waitForCompletion as boolean) ?? true;
+							const maxWaitMs =
+								((changeOptions.maxWaitMinutes as number) ?? TIMEOUTS.FILAMENT_CHANGE / 60000) * 60000;
+
+							// The number of trays depends on the printer model
+							if (!printerModel) {
+								printerModel = await mqttClient.getPrinterModel();
+								commands.setPrinterModel(printerModel);
+							}
+
+							const status = await mqttClient.getStatus();
+							// The loaded tray (tray_now) is only reported with AMS data
+							if (!status.ams) {
+								throw new NodeOperationError(
+									this.getNode(),
+									'AMS not detected. Loading and unloading filament requires an AMS.',
+									{ itemIndex: i },
+								);
+							}
+							if (AMS_FILAMENT.BUSY_STATES.includes(status.state)) {
+								throw new NodeOperationError(
+									this.getNode(),
+									`Cannot change filament while the printer is busy (${status.state}). Pause the print first.`,
+									{ itemIndex: i },
+								);
+							}
+
+							const trays = PrinterStatusParser.listTrays(status);
+							const previousTray = status.ams.activeTray;
+
+							if (previousTray === trayId) {
+								responseData = {
+									success: true,
+									message:
+										trayId === null
+											? 'No filament is loaded'
+											: `Filament of tray ${trayId} is already loaded`,
+									changed: false,
+									previousTray,
+									activeTray: previousTray,
+								};
+							} else {
+								let command: AnyCommand;
+								if (trayId !== null) {
+									// Unload at the temperature of the loaded filament, load at the temperature of the new one
+									const targetTray = trays.find((tray) => tray.trayId === trayId);
+									if (!targetTray) {
+										const available = trays.map((tray) => tray.trayId).join(', ');
+										throw new NodeOperationError(
+											this.getNode(),
+											`Tray ${trayId} not found in the printer status. Available trays: ${available || 'none'}`,
+											{ itemIndex: i },
+										);
+									}
+									if (targetTray.empty || targetTray.present === false) {
+										throw new NodeOperationError(
+											this.getNode(),
+											`Tray ${trayId} is empty. Insert filament before loading it.`,
+											{ itemIndex: i },
+										);
+									}
+									const currentTray = trays.find((tray) => tray.trayId === previousTray);
+									const targetTemp =
+										(changeOptions.nozzleTemperature as number | undefined) ??
+										targetTray.nozzleTempMax ??
+										AMS_FILAMENT.DEFAULT_CHANGE_TEMP;
+									command = commands.loadFilament(
+										trayId,
+										targetTemp,
+										currentTray?.nozzleTempMax ?? targetTemp,
+									);
+								} else {
+									command = commands.unloadFilament();
+								}
+								await mqttClient.publishCommand(command);
+
+								const result = waitForCompletion
+									? await mqttClient.waitForStatus(
+											(current) => (current.ams?.activeTray ?? null) === trayId,
+											{ timeout: maxWaitMs },
+										)
+									: null;
+
+								responseData = {
+									success: true,
+									message: `${trayId === null ? 'Filament unload' : `Filament load from tray ${trayId}`} ${waitForCompletion ? 'completed' : 'started'}`,
+									changed: true,
+									previousTray,
+									...(result ? { activeTray: result.ams?.activeTray ?? null } : {}),
+									command: command as unknown as IDataObject,
+								};
+							}
+						} else if (operation === 'startDrying' || operation === 'stopDrying') {
+							const amsId = this.getNodeParameter('amsId', i) as number;
+
+							const status = await mqttClient.getStatus();
+							const unit = status.ams?.units.find((u) => u.id === amsId);
+							if (!unit) {
+								const available = status.ams?.units.map((u) => u.id).join(', ');
+								throw new NodeOperationError(
+									this.getNode(),
+									`AMS ${amsId} not found. Available AMS IDs: ${available || 'none (AMS not detected)'}`,
+									{ itemIndex: i },
+								);
+							}
+
+							if (operation === 'startDrying') {
+								const material = this.getNodeParameter('dryingMaterial', i) as DryingMaterial;
+								const dryingOptions = this.getNodeParameter('dryingOptions', i, {}) as IDataObject;
+
+								// The AMS model decides whether the unit can dry and its temperature limit
+								const command = commands.startDrying(amsId, unit.model, material, {
+									temperature: dryingOptions.temperature as number | undefined,
+									durationHours: dryingOptions.durationHours as number | undefined,
+								});
+								await mqttClient.publishCommand(command);
+
+								responseData = {
+									success: true,
+									message: `Drying ${material} in AMS ${amsId} at ${command.print.temp} °C for ${command.print.duration} hours`,
+									amsId,
+									amsModel: unit.model,
+									material,
+									temperature: command.print.temp,
+									durationHours: command.print.duration,
+									humidityLevel: unit.humidityLevel,
+								};
+							} else {
+								const command = commands.stopDrying(amsId);
+								await mqttClient.publishCommand(command);
+
+								responseData = {
+									success: true,
+									message: `Drying stopped in AMS ${amsId}`,
+									amsId,
+									wasDrying: unit.drying,
+								};
+							}
+						} else if (operation === 'setTrayFilament') {
+							const trayId = this.getNodeParameter('trayId', i) as number;
+							const filamentOptions = this.getNodeParameter('filamentOptions', i, {}) as IDataObject;
+
+							// The number of trays depends on the printer model
+							if (!printerModel) {
+								printerModel = await mqttClient.getPrinterModel();
+								commands.setPrinterModel(printerModel);
+							}
+
+							const command = commands.setTrayFilament(trayId, {
+								type: this.getNodeParameter('filamentType', i) as string,
+								color: this.getNodeParameter('filamentColor', i) as string,
+								presetId: filamentOptions.presetId as string | undefined,
+								nozzleTempMin: filamentOptions.nozzleTempMin as number | undefined,
+								nozzleTempMax: filamentOptions.nozzleTempMax as number | undefined,
+							});
+							await mqttClient.publishCommand(command);
+
+							responseData = {
+								success: true,
+								message: `Filament of tray ${trayId} set to ${command.print.tray_type}`,
+								trayId,
+								type: command.print.tray_type,
+								color: `#${command.print.tray_color.substring(0, 6)}`,
+								presetId: command.print.tray_info_idx,
+								nozzleTempMin: command.print.nozzle_temp_min,
+								nozzleTempMax: command.print.nozzle_temp_max,
+							};
+						} else {
+							throw new NodeOperationError(
+								this.getNode(),
+								`Unknown operation "${operation}" for resource "ams"`,
+								{ itemIndex: i },
+							);
+						}
+					}
+
 					// ==================== FILE RESOURCE ====================
 					else if (resource === 'file') {
 						if (operation === 'upload') {
-							const fileContent = this.getNodeParameter('fileContent', i) as string;
-							const fileName = this.getNodeParameter('fileName', i) as string;
+							const useBinaryData = this.getNodeParameter('binaryData', i, false) as boolean;
+							let fileName = this.getNodeParameter('fileName', i, '') as string;
 							const remotePath = this.getNodeParameter('remotePath', i, '/') as string;
 
+							// Binary data is uploaded as-is - string content would corrupt .3mf archives
+							let fileContent: Buffer | string;
+							if (useBinaryData) {
+								const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
+								const binaryData = this.helpers.assertBinaryData(i, binaryPropertyName);
+								fileContent = await this.helpers.getBinaryDataBuffer(i, binaryPropertyName);
+								fileName = fileName || binaryData.fileName || '';
+							} else {
+								fileContent = this.getNodeParameter('fileContent', i) as string;
+							}
+
+							if (!fileName) {
+								throw new NodeOperationError(this.getNode(), 'File name is required', {
+									itemIndex: i,
+								});
+							}
+
 							const result = await ftpClient.uploadFile({
 								fileContent,
 								fileName,
@@ -788,6 +2377,63 @@ export class BambuLab implements INodeType {
 							});
 
 							responseData = result as unknown as IDataObject;
+						} else if (operation === 'download') {
+							const filePath = this.getNodeParameter('filePath', i) as string;
+							const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
+
+							const fileBuffer = await ftpClient.downloadFileAsBuffer(filePath);
+							const fileName = filePath.split('/').pop() || filePath;
+							const extension = fileName.includes('.')
+								? fileName.slice(fileName.lastIndexOf('.') + 1).toLowerCase()
+								: '';
+
+							binaryResponse = {
+								[binaryPropertyName]: await this.helpers.prepareBinaryData(
+									fileBuffer,
+									fileName,
+									MIME_TYPES[extension] ?? DEFAULT_MIME_TYPE,
+								),
+							};
+							responseData = {
+								success: true,
+								fileName,
+								filePath,
+								size: fileBuffer.length,
+							};
+						} else if (operation === 'inspect') {
+							const filePath = this.getNodeParameter('filePath', i) as string;
+
+							const inspectOptions = this.getNodeParameter('inspectOptions', i, {}) as IDataObject;
+
+							const fileBuffer = await ftpClient.downloadFileAsBuffer(filePath);
+							const archive = ThreeMfArchive.fromBuffer(fileBuffer);
+							const projectInfo = ThreeMfMetadataParser.parseFromArchive(archive);
+
+							if (inspectOptions.includeThumbnails) {
+								const thumbnailSize = (inspectOptions.thumbnailSize as ThumbnailSize) ?? 'large';
+								const thumbnails: IBinaryKeyData = {};
+								for (const plateInfo of projectInfo.plates) {
+									const plateThumbnail = archive.getPlateThumbnail(plateInfo.plate, thumbnailSize);
+									if (plateThumbnail) {
+										thumbnails[`thumbnail_${plateInfo.plate}`] =
+											await this.helpers.prepareBinaryData(
+												plateThumbnail,
+												`plate_${plateInfo.plate}.png`,
+												MIME_TYPES.png,
+											);
+									}
+								}
+								if (Object.keys(thumbnails).length > 0) {
+									binaryResponse = thumbnails;
+								}
+							}
+
+							responseData = {
+								success: true,
+								fileName: filePath.split('/').pop() || filePath,
+								filePath,
+								...projectInfo,
+							} as unknown as IDataObject;
 						} else if (operation === 'list') {
 							const path = this.getNodeParameter('path', i, '/') as string;
 							const result = await ftpClient.listFiles(path);
@@ -808,14 +2454,41 @@ export class BambuLab implements INodeType {
 					// ==================== CAMERA RESOURCE ====================
 					else if (resource === 'camera') {
 						if (operation === 'getStreamUrl') {
-							responseData = {
-								rtsp: `rtsp://bblp:${credentials.accessCode}@${credentials.printerIp}/streaming/live/1`,
-								http: `http://${credentials.printerIp}:6000/stream`,
-							};
+							const cameraModel = PrinterModels.detect(credentials.serialNumber);
+
+							if (cameraModel.cameraProtocol === 'jpeg-tls') {
+								responseData = {
+									model: cameraModel.name,
+									protocol: cameraModel.cameraProtocol,
+									host: credentials.printerIp,
+									port: PRINTER_DEFAULTS.CAMERA_PORT,
+									message: 'This printer streams JPEG frames over TLS instead of RTSP. Use Get Snapshot to capture images.',
+								};
+							} else {
+								responseData = {
+									model: cameraModel.name,
+									protocol: cameraModel.cameraProtocol,
+									rtsp: `rtsps://${PRINTER_DEFAULTS.CAMERA_USERNAME}:${credentials.accessCode}@${credentials.printerIp}:${PRINTER_DEFAULTS.RTSP_PORT}/streaming/live/1`,
+								};
+							}
 						} else if (operation === 'getSnapshot') {
+							const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
+
+							const cameraClient = new BambuLabCameraClient(credentials);
+							const image = await cameraClient.getSnapshot();
+							const capturedAt = new Date().toISOString();
+
+							binaryResponse = {
+								[binaryPropertyName]: await this.helpers.prepareBinaryData(
+									image,
+									`snapshot_${capturedAt.replace(/[:.]/g, '-')}.jpg`,
+									MIME_TYPES.jpg,
+								),
+							};
 							responseData = {
-								url: `http://${credentials.printerIp}:6000/snapshot`,
-								message: 'Use this URL to fetch a snapshot image',
+								success: true,
+								capturedAt,
+								size: image.length,
 							};
 						} else {
 							throw new NodeOperationError(
@@ -863,8 +2536,16 @@ export class BambuLab implements INodeType {
 						);
 					}
 
+					if (responseItems) {
+						for (const item of responseItems) {
+							returnData.push({ json: item, pairedItem: { item: i } });
+						}
+						continue;
+					}
+
 					returnData.push({
 						json: responseData,
+						...(binaryResponse ? { binary: binaryResponse } : {}),
 						pairedItem: { item: i },
 					});
 				} catch (error) {
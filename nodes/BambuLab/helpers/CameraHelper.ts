@@ -0,0 +1,195 @@
+import { connect as tlsConnect } from 'tls';
+import type { TLSSocket } from 'tls';
+import type { BambuLabCredentials, PrinterModel } from './types';
+import { LIMITS, PRINTER_DEFAULTS, TIMEOUTS } from './constants';
+import { ErrorHelper } from './ErrorHelper';
+import { PrinterModels } from './PrinterModels';
+
+/**
+ * Options for the camera client
+ */
+export interface CameraClientOptions {
+	/** Camera port (default: 6000) */
+	port?: number;
+	/** Timeout for connect, authentication and the first frame in milliseconds */
+	timeout?: number;
+	/** Printer model (default: detected from the serial number) */
+	printerModel?: PrinterModel;
+}
+
+/** Size of the header that precedes every JPEG frame */
+const FRAME_HEADER_SIZE = 16;
+
+/** Size of the fixed-length username and access code fields in the auth packet */
+const AUTH_FIELD_SIZE = 32;
+
+/**
+ * Camera Helper for Bambu Lab A1/P1 Series Printers
+ *
+ * The chamber camera of A1 and P1 printers is not exposed via RTSP. Instead it
+ * streams JPEG frames over TLS on port 6000:
+ * 1. The client sends an 80-byte auth packet with the access code
+ * 2. The printer sends frames, each with a 16-byte header (payload size as
+ *    little-endian uint32 in the first 4 bytes) followed by a JPEG image
+ *
+ * X1 series printers stream via RTSP instead and do not answer on this port.
+ */
+export class BambuLabCameraClient {
+	private credentials: BambuLabCredentials;
+
+	private port: number;
+
+	private timeout: number;
+
+	private printerModel: PrinterModel;
+
+	constructor(credentials: BambuLabCredentials, options: CameraClientOptions = {}) {
+		this.credentials = credentials;
+		this.port = options.port ?? PRINTER_DEFAULTS.CAMERA_PORT;
+		this.timeout = options.timeout ?? TIMEOUTS.CAMERA_SNAPSHOT;
+		this.printerModel = options.printerModel ?? PrinterModels.detect(credentials.serialNumber);
+	}
+
+	/**
+	 * Capture a single JPEG frame from the camera
+	 *
+	 * Opens a new connection, authenticates, reads the first frame and closes
+	 * the connection again.
+	 *
+	 * @returns JPEG image data
+	 * @throws Error if the printer model streams via RTSP, or on connection failure,
+	 * timeout, rejected access code or invalid frame
+	 */
+	async getSnapshot(): Promise<Buffer> {
+		if (this.printerModel.cameraProtocol === 'rtsp') {
+			throw ErrorHelper.cameraNotSupported(this.printerModel.name);
+		}
+
+		return new Promise((resolve, reject) => {
+			let socket: TLSSocket | null = null;
+			let settled = false;
+			let received = Buffer.alloc(0);
+			let authenticated = false;
+
+			const finish = (error: Error | null, frame?: Buffer) => {
+				if (settled) {
+					return;
+				}
+				settled = true;
+				clearTimeout(timer);
+				socket?.destroy();
+
+				if (error) {
+					reject(error);
+				} else {
+					resolve(frame as Buffer);
+				}
+			};
+
+			const timer = setTimeout(() => {
+				finish(ErrorHelper.cameraTimeout(this.timeout));
+			}, this.timeout);
+
+			socket = tlsConnect({
+				host: this.credentials.printerIp,
+				port: this.port,
+				// Bambu Lab printers use self-signed certificates
+				rejectUnauthorized: false,
+			});
+
+			socket.on('secureConnect', () => {
+				authenticated = true;
+				socket?.write(BambuLabCameraClient.createAuthPacket(this.credentials.accessCode));
+			});
+
+			socket.on('data', (chunk: Buffer) => {
+				received = Buffer.concat([received, chunk]);
+
+				try {
+					const frame = BambuLabCameraClient.extractFrame(received);
+					if (frame) {
+						finish(null, frame);
+					}
+				} catch (error) {
+					finish(error as Error);
+				}
+			});
+
+			socket.on('error', (error: Error) => {
+				finish(
+					ErrorHelper.cameraConnectionFailed(this.credentials.printerIp, this.port, error.message),
+				);
+			});
+
+			// The printer closes the connection when the access code is wrong
+			socket.on('close', () => {
+				finish(
+					authenticated
+						? ErrorHelper.cameraClosed()
+						: ErrorHelper.cameraConnectionFailed(
+								this.credentials.printerIp,
+								this.port,
+								'Connection closed',
+							),
+				);
+			});
+		});
+	}
+
+	/**
+	 * Create the 80-byte authentication packet
+	 *
+	 * Layout (little-endian):
+	 * - uint32 0x40 (payload size), uint32 0x3000 (packet type), 2x uint32 0
+	 * - 32 bytes username ("bblp"), zero padded
+	 * - 32 bytes access code, zero padded
+	 */
+	static createAuthPacket(accessCode: string): Buffer {
+		const packet = Buffer.alloc(FRAME_HEADER_SIZE + AUTH_FIELD_SIZE * 2);
+
+		packet.writeUInt32LE(0x40, 0);
+		packet.writeUInt32LE(0x3000, 4);
+		packet.writeUInt32LE(0, 8);
+		packet.writeUInt32LE(0, 12);
+		packet.write(PRINTER_DEFAULTS.CAMERA_USERNAME, FRAME_HEADER_SIZE, AUTH_FIELD_SIZE, 'ascii');
+		packet.write(accessCode, FRAME_HEADER_SIZE + AUTH_FIELD_SIZE, AUTH_FIELD_SIZE, 'ascii');
+
+		return packet;
+	}
+
+	/**
+	 * Extract the first complete JPEG frame from received data
+	 *
+	 * @param data Data received so far
+	 * @returns JPEG image, or null if the frame is not complete yet
+	 * @throws Error if the header announces an invalid size or the payload is not a JPEG
+	 */
+	static extractFrame(data: Buffer): Buffer | null {
+		if (data.length < FRAME_HEADER_SIZE) {
+			return null;
+		}
+
+		const size = data.readUInt32LE(0);
+		if (size === 0 || size > LIMITS.MAX_CAMERA_FRAME_SIZE) {
+			throw ErrorHelper.cameraInvalidFrame(`unexpected frame size ${size} bytes`);
+		}
+
+		if (data.length < FRAME_HEADER_SIZE + size) {
+			return null;
+		}
+
+		const frame = data.subarray(FRAME_HEADER_SIZE, FRAME_HEADER_SIZE + size);
+
+		// JPEG images start with FF D8 (SOI) and end with FF D9 (EOI)
+		if (
+			frame[0] !== 0xff ||
+			frame[1] !== 0xd8 ||
+			frame[size - 2] !== 0xff ||
+			frame[size - 1] !== 0xd9
+		) {
+			throw ErrorHelper.cameraInvalidFrame('payload is not a JPEG image');
+		}
+
+		return Buffer.from(frame);
+	}
+}
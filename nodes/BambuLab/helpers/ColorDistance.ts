@@ -0,0 +1,155 @@
+/**
+ * Color in CIE L*a*b* space (D65 white point)
+ */
+export interface LabColor {
+	l: number;
+	a: number;
+	b: number;
+}
+
+/** D65 reference white */
+const WHITE = { x: 0.95047, y: 1.0, z: 1.08883 };
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Perceptual color difference helper
+ *
+ * Uses CIEDE2000 (ΔE00), where ~1 is barely noticeable and values above ~10
+ * are clearly different colors. Used to match slicer filament colors against
+ * the colors reported by the AMS, which often differ slightly for the same spool
+ * (e.g. "#000000" in the slicer vs "161616FF" from the AMS).
+ *
+ * @example
+ * ColorDistance.between('#000000', '161616FF'); // ~4.3
+ */
+export class ColorDistance {
+	/**
+	 * CIEDE2000 difference between two hex colors
+	 *
+	 * @param color1 Hex color with or without "#" and alpha channel
+	 * @param color2 Hex color with or without "#" and alpha channel
+	 * @returns ΔE00, or null if either color is not a valid hex color
+	 */
+	static between(color1: string, color2: string): number | null {
+		const lab1 = this.hexToLab(color1);
+		const lab2 = this.hexToLab(color2);
+
+		if (!lab1 || !lab2) {
+			return null;
+		}
+
+		return this.ciede2000(lab1, lab2);
+	}
+
+	/**
+	 * Convert a hex color ("#RRGGBB", "RRGGBB" or "RRGGBBAA") to L*a*b*
+	 *
+	 * @returns Lab color, or null for invalid input
+	 */
+	static hexToLab(color: string): LabColor | null {
+		const hex = color.trim().replace(/^#/, '');
+		if (!/^[0-9a-fA-F]{6}([0-9a-fA-F]{2})?$/.test(hex)) {
+			return null;
+		}
+
+		// sRGB -> linear RGB
+		const [r, g, b] = [0, 2, 4].map((offset) => {
+			const channel = parseInt(hex.substring(offset, offset + 2), 16) / 255;
+			return channel <= 0.04045 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+		});
+
+		// Linear RGB -> XYZ
+		const x = (r * 0.4124564 + g * 0.3575761 + b * 0.1804375) / WHITE.x;
+		const y = (r * 0.2126729 + g * 0.7151522 + b * 0.072175) / WHITE.y;
+		const z = (r * 0.0193339 + g * 0.119192 + b * 0.9503041) / WHITE.z;
+
+		// XYZ -> Lab
+		const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+		const fx = f(x);
+		const fy = f(y);
+		const fz = f(z);
+
+		return {
+			l: 116 * fy - 16,
+			a: 500 * (fx - fy),
+			b: 200 * (fy - fz),
+		};
+	}
+
+	/**
+	 * CIEDE2000 color difference between two Lab colors
+	 * Implementation follows Sharma, Wu and Dalal (2005) with kL = kC = kH = 1
+	 */
+	static ciede2000(lab1: LabColor, lab2: LabColor): number {
+		const c1 = Math.hypot(lab1.a, lab1.b);
+		const c2 = Math.hypot(lab2.a, lab2.b);
+		const cMean = (c1 + c2) / 2;
+		const g = 0.5 * (1 - Math.sqrt(Math.pow(cMean, 7) / (Math.pow(cMean, 7) + Math.pow(25, 7))));
+
+		const a1 = lab1.a * (1 + g);
+		const a2 = lab2.a * (1 + g);
+		const c1p = Math.hypot(a1, lab1.b);
+		const c2p = Math.hypot(a2, lab2.b);
+
+		const hue = (b: number, a: number) => {
+			if (a === 0 && b === 0) {
+				return 0;
+			}
+			const h = toDegrees(Math.atan2(b, a));
+			return h >= 0 ? h : h + 360;
+		};
+		const h1p = hue(lab1.b, a1);
+		const h2p = hue(lab2.b, a2);
+
+		const deltaL = lab2.l - lab1.l;
+		const deltaC = c2p - c1p;
+
+		let deltaHue = 0;
+		if (c1p * c2p !== 0) {
+			deltaHue = h2p - h1p;
+			if (deltaHue > 180) {
+				deltaHue -= 360;
+			} else if (deltaHue < -180) {
+				deltaHue += 360;
+			}
+		}
+		const deltaH = 2 * Math.sqrt(c1p * c2p) * Math.sin(toRadians(deltaHue / 2));
+
+		const lMean = (lab1.l + lab2.l) / 2;
+		const cMeanP = (c1p + c2p) / 2;
+
+		let hMean = h1p + h2p;
+		if (c1p * c2p !== 0) {
+			if (Math.abs(h1p - h2p) <= 180) {
+				hMean = (h1p + h2p) / 2;
+			} else if (h1p + h2p < 360) {
+				hMean = (h1p + h2p + 360) / 2;
+			} else {
+				hMean = (h1p + h2p - 360) / 2;
+			}
+		}
+
+		const t =
+			1 -
+			0.17 * Math.cos(toRadians(hMean - 30)) +
+			0.24 * Math.cos(toRadians(2 * hMean)) +
+			0.32 * Math.cos(toRadians(3 * hMean + 6)) -
+			0.2 * Math.cos(toRadians(4 * hMean - 63));
+
+		const deltaTheta = 30 * Math.exp(-Math.pow((hMean - 275) / 25, 2));
+		const rc = 2 * Math.sqrt(Math.pow(cMeanP, 7) / (Math.pow(cMeanP, 7) + Math.pow(25, 7)));
+		const sl = 1 + (0.015 * Math.pow(lMean - 50, 2)) / Math.sqrt(20 + Math.pow(lMean - 50, 2));
+		const sc = 1 + 0.045 * cMeanP;
+		const sh = 1 + 0.015 * cMeanP * t;
+		const rt = -Math.sin(toRadians(2 * deltaTheta)) * rc;
+
+		return Math.sqrt(
+			Math.pow(deltaL / sl, 2) +
+				Math.pow(deltaC / sc, 2) +
+				Math.pow(deltaH / sh, 2) +
+				rt * (deltaC / sc) * (deltaH / sh),
+		);
+	}
+}
@@ -75,6 +75,20 @@ export class ErrorHelper {
 		return new Error(ERROR_TEMPLATES.COMMAND_RESPONSE_TIMEOUT(timeout));
 	}
 
+	/**
+	 * Create wait for print state timeout error
+	 */
+	static waitTimeout(timeout: number): Error {
+		return new Error(ERROR_TEMPLATES.WAIT_TIMEOUT(timeout));
+	}
+
+	/**
+	 * Create print failed while waiting error
+	 */
+	static printFailedWhileWaiting(state: string): Error {
+		return new Error(ERROR_TEMPLATES.PRINT_FAILED_WHILE_WAITING(state));
+	}
+
 	/**
 	 * Create AMS not detected error
 	 */
@@ -89,6 +103,41 @@ export class ErrorHelper {
 		return new Error(ERROR_TEMPLATES.FILAMENT_NOT_FOUND(type, color, index, available));
 	}
 
+	/**
+	 * Create camera connection failed error
+	 */
+	static cameraConnectionFailed(ip: string, port: number, message: string): Error {
+		return new Error(ERROR_TEMPLATES.CAMERA_CONNECTION_FAILED(ip, port, message));
+	}
+
+	/**
+	 * Create camera snapshot timeout error
+	 */
+	static cameraTimeout(timeout: number): Error {
+		return new Error(ERROR_TEMPLATES.CAMERA_TIMEOUT(timeout));
+	}
+
+	/**
+	 * Create camera connection closed error
+	 */
+	static cameraClosed(): Error {
+		return new Error(ERROR_TEMPLATES.CAMERA_CLOSED);
+	}
+
+	/**
+	 * Create invalid camera frame error
+	 */
+	static cameraInvalidFrame(message: string): Error {
+		return new Error(ERROR_TEMPLATES.CAMERA_INVALID_FRAME(message));
+	}
+
+	/**
+	 * Create camera snapshot not supported error
+	 */
+	static cameraNotSupported(model: string): Error {
+		return new Error(ERROR_TEMPLATES.CAMERA_NOT_SUPPORTED(model));
+	}
+
 	/**
 	 * Create printer offline error
 	 */
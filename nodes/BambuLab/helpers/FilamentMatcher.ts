@@ -1,10 +1,15 @@
 import type {
 	FilamentProfile,
 	FilamentMatchResult,
+	FilamentMatchQuality,
 	MatchedFilamentProfile,
 	PrinterStatus,
-	AMSTray,
+	AMSTrayStatus,
+	FilamentMatchOptions,
+	FilamentTypeMatchMode,
 } from './types';
+import { ColorDistance } from './ColorDistance';
+import { FILAMENT_MATCHING } from './constants';
 
 /**
  * Matcher for mapping .3mf filament profiles to current AMS configuration
@@ -12,128 +17,453 @@ import type {
  * Performs strict matching (type + color) to ensure correct filaments are used.
  * Prevents printing with wrong colors or materials by validating against
  * actual AMS contents at print time.
+ *
+ * In tolerant color mode, a tray of the same type also matches when its color
+ * is within a CIEDE2000 distance of the profile color (see ColorDistance).
+ *
+ * Filament types match when they belong to the same type family (e.g. a PLA
+ * profile matches a "PLA Matte" tray), unless exact type matching is requested.
+ * Identical types are always preferred over other types of the family.
+ *
+ * When both the profile and the tray report a Bambu filament preset ID
+ * (filament_ids / tray_info_idx), trays with the same preset ID are preferred,
+ * so two different PLA brands in the same color are told apart.
+ *
+ * Among equally good trays the one with the most filament left is used. The
+ * estimated remaining filament of each matched tray is compared with the
+ * filament usage of the plate (sufficiency check).
  */
 export class FilamentMatcher {
 	/**
 	 * Match .3mf filament profiles to current AMS state
 	 *
 	 * @param profiles Filament profiles parsed from .3mf file
-	 * @param currentStatus Current printer status including AMS data
+	 * @param currentStatus Current normalized printer status including AMS data
+	 * @param options Color and type matching rules (default: exact colors, equivalent types)
 	 * @returns Mapping result with matched slots
-	 * @throws Error if required filament not found in AMS
+	 * @throws Error if required filament not found in AMS (unless the unmatched
+	 * mode is 'warn'), or a tray does not hold enough filament and the
+	 * sufficiency mode is 'fail'
 	 *
 	 * @example
 	 * const profiles = parser.parseFromBuffer(buffer).profiles;
 	 * const status = await mqttClient.getStatus();
 	 * const result = FilamentMatcher.matchProfilesToAMS(profiles, status);
 	 * // result.mapping = [2, 3] means use slots 3 and 4
+	 * // result.mapping = [5, 254] means use AMS 2 slot 2 and the external spool
 	 */
 	static matchProfilesToAMS(
 		profiles: FilamentProfile[],
 		currentStatus: PrinterStatus,
+		options: FilamentMatchOptions = {},
 	): FilamentMatchResult {
-		// AMS data is always nested under print.ams
-		const amsData = (currentStatus as any).print?.ams;
-
-		// Check if AMS is present - actual structure has print.ams.ams[] array
-		if (!amsData || !amsData.ams || amsData.ams.length === 0) {
-			// No AMS detected - assume external spool
-			// Use tray 0 for all filaments
-			return {
-				mapping: profiles.map(() => 0),
-				matches: profiles.map((p) => ({
-					...p,
-					matchedSlot: 1,
-					matchedTrayId: 0,
-					matchQuality: 'exact',
-					currentColor: p.colour,
-					currentType: p.type,
-				})),
-				amsDetected: false,
-				totalSlots: 1,
-			};
-		}
+		const amsData = currentStatus.ams;
 
-		// Get all trays from all AMS units (flatten array)
-		// A1 series has 1 AMS unit with 4 trays
-		const allTrays = amsData.ams.flatMap((unit: any) => unit.tray || []);
+		// Get all loaded trays from all AMS units plus the external spool
+		// AMS trays come first so they are preferred over the external spool
+		const amsDetected = !!amsData && amsData.units.length > 0;
+		const allTrays = [
+			...(amsData?.units ?? []).flatMap((unit) => unit.trays),
+			...(currentStatus.externalSpool ? [currentStatus.externalSpool] : []),
+		].filter((tray) => !tray.empty);
 
 		if (allTrays.length === 0) {
-			// AMS exists but no trays loaded
+			// No AMS and no external spool loaded - assume external spool
+			// Use tray 0 for all filaments
 			return {
 				mapping: profiles.map(() => 0),
 				matches: profiles.map((p) => ({
 					...p,
 					matchedSlot: 1,
 					matchedTrayId: 0,
+					matchedAmsId: null,
 					matchQuality: 'exact',
+					colorDistance: 0,
+					typeMatch: 'exact',
+					presetMatch: false,
 					currentColor: p.colour,
 					currentType: p.type,
+					currentPresetId: '',
+					remainingGrams: null,
+					sufficient: null,
 				})),
 				amsDetected: false,
+				traysDetected: false,
 				totalSlots: 1,
+				warnings: [],
 			};
 		}
 
-		// AMS present - match each profile strictly
+		// Trays present - match each profile strictly
 		const mapping: number[] = [];
 		const matches: MatchedFilamentProfile[] = [];
+		const unmatched: string[] = [];
+
+		const tolerance =
+			options.colorMode === 'tolerant'
+				? (options.colorTolerance ?? FILAMENT_MATCHING.DEFAULT_COLOR_TOLERANCE)
+				: null;
+
+		const typeFamilies =
+			options.typeMode === 'exact' ? [] : this.getTypeFamilies(options.typeEquivalences);
 
 		for (const profile of profiles) {
-			const match = this.findExactMatch(profile, allTrays);
+			const match =
+				this.findExactMatch(profile, allTrays, typeFamilies) ??
+				(tolerance !== null
+					? this.findCloseMatch(profile, allTrays, tolerance, typeFamilies)
+					: null);
 
 			if (!match) {
-				// Strict mode - fail immediately
 				const available = this.formatAvailableFilaments(allTrays);
-				throw new Error(
-					`Filament not found in AMS: Need ${profile.type} (${profile.colour}) ` +
-						`for profile ${profile.index}. Available: ${available}`,
-				);
+				const toleranceInfo = tolerance !== null ? `, color difference up to ${tolerance}` : '';
+				const message =
+					`Filament not found in AMS: Need ${profile.type} (${profile.colour}${toleranceInfo}) ` +
+					`for profile ${profile.index}. Available: ${available}`;
+
+				// Strict mode - fail immediately
+				if (options.unmatchedMode !== 'warn') {
+					throw new Error(message);
+				}
+
+				// Report mode - leave the profile unmapped
+				mapping.push(-1);
+				unmatched.push(message);
+				continue;
 			}
 
 			mapping.push(match.matchedTrayId);
 			matches.push(match);
 		}
 
+		const shortages = this.checkSufficiency(matches);
+		const sufficiencyMode = options.sufficiencyMode ?? 'warn';
+
+		if (sufficiencyMode === 'fail' && shortages.length > 0) {
+			throw new Error(shortages.join('. '));
+		}
+
 		return {
 			mapping,
 			matches,
-			amsDetected: true,
+			amsDetected,
+			traysDetected: true,
 			totalSlots: allTrays.length,
+			warnings: [...unmatched, ...(sufficiencyMode === 'warn' ? shortages : [])],
 		};
 	}
 
+	/**
+	 * Parse user-defined type families
+	 *
+	 * One family per line: the family name, a colon and a comma-separated list
+	 * of equivalent types. Empty lines are ignored.
+	 *
+	 * @param text Type families, e.g. "PLA: PLA Matte, PLA-CF\nPETG: PETG HF"
+	 * @returns Family name to equivalent types
+	 * @throws Error if a line is not in the expected format
+	 *
+	 * @example
+	 * FilamentMatcher.parseTypeEquivalences('PLA: PLA Glow, PLA Marble');
+	 * // { PLA: ['PLA Glow', 'PLA Marble'] }
+	 */
+	static parseTypeEquivalences(text: string): Record<string, string[]> {
+		const equivalences: Record<string, string[]> = {};
+
+		for (const line of text.split(/\r?\n/)) {
+			if (!line.trim()) {
+				continue;
+			}
+
+			const separator = line.indexOf(':');
+			const family = separator > 0 ? line.substring(0, separator).trim() : '';
+			if (!family) {
+				throw new Error(
+					`Invalid filament type equivalence: "${line.trim()}". Expected format: "PLA: PLA Matte, PLA-CF"`,
+				);
+			}
+
+			equivalences[family] = line
+				.substring(separator + 1)
+				.split(',')
+				.map((type) => type.trim())
+				.filter((type) => type.length > 0);
+		}
+
+		return equivalences;
+	}
+
 	/**
 	 * Find exact match by type and normalized color
-	 * Returns first match if multiple identical filaments exist
+	 * Prefers trays with the same preset ID, then the identical type, then other
+	 * types of the family. If multiple identical filaments exist, the tray with
+	 * the most filament left wins, then the first tray.
 	 */
 	private static findExactMatch(
 		profile: FilamentProfile,
-		trays: AMSTray[],
+		trays: AMSTrayStatus[],
+		typeFamilies: Array<Set<string>>,
 	): MatchedFilamentProfile | null {
 		const normalizedProfileColor = this.normalizeColor(profile.colour);
-		const normalizedProfileType = this.normalizeType(profile.type);
+		let best: { tray: AMSTrayStatus; rank: number; typeMatch: FilamentTypeMatchMode } | null = null;
 
 		for (const tray of trays) {
-			const trayColor = this.normalizeColor(tray.tray_color || '');
-			const trayType = this.normalizeType(tray.tray_type || '');
-
-			// Check for exact match (type AND color)
-			if (trayType === normalizedProfileType && trayColor === normalizedProfileColor) {
-				// Found exact match - use it (first match if duplicates exist)
-				const trayId = parseInt(tray.id || '0', 10);
-				return {
-					...profile,
-					matchedSlot: trayId + 1, // Convert 0-indexed to 1-indexed for display
-					matchedTrayId: trayId,
-					matchQuality: 'exact',
-					currentColor: tray.tray_color || '',
-					currentType: tray.tray_type || '',
-				};
+			if (this.normalizeColor(tray.color) !== normalizedProfileColor) {
+				continue;
+			}
+
+			const candidate = this.rankTray(profile, tray, typeFamilies);
+			if (
+				candidate &&
+				(!best ||
+					candidate.rank < best.rank ||
+					(candidate.rank === best.rank && this.hasMoreFilament(tray, best.tray)))
+			) {
+				best = { tray, ...candidate };
+			}
+		}
+
+		return best ? this.createMatch(profile, best.tray, 'exact', 0, best.typeMatch) : null;
+	}
+
+	/**
+	 * Find the tray of a matching type with the closest color within the tolerance
+	 * A tray with the same preset ID wins over closer colors of other presets.
+	 * On equal distance the identical type wins, then the tray with the most
+	 * filament left, then the first tray.
+	 */
+	private static findCloseMatch(
+		profile: FilamentProfile,
+		trays: AMSTrayStatus[],
+		tolerance: number,
+		typeFamilies: Array<Set<string>>,
+	): MatchedFilamentProfile | null {
+		let best: {
+			tray: AMSTrayStatus;
+			distance: number;
+			rank: number;
+			typeMatch: FilamentTypeMatchMode;
+		} | null = null;
+
+		for (const tray of trays) {
+			const candidate = this.rankTray(profile, tray, typeFamilies);
+			if (!candidate) {
+				continue;
+			}
+
+			const distance = ColorDistance.between(profile.colour, tray.color);
+			if (distance === null || distance > tolerance) {
+				continue;
+			}
+
+			const presetMatch = candidate.rank === 0;
+			const bestPresetMatch = best?.rank === 0;
+			if (
+				!best ||
+				(presetMatch && !bestPresetMatch) ||
+				(presetMatch === bestPresetMatch &&
+					(distance < best.distance ||
+						(distance === best.distance &&
+							(candidate.rank < best.rank ||
+								(candidate.rank === best.rank && this.hasMoreFilament(tray, best.tray))))))
+			) {
+				best = { tray, distance, ...candidate };
+			}
+		}
+
+		if (!best) {
+			return null;
+		}
+
+		return this.createMatch(
+			profile,
+			best.tray,
+			'close',
+			Math.round(best.distance * 100) / 100,
+			best.typeMatch,
+		);
+	}
+
+	/**
+	 * Rank a tray as candidate for a profile (lower is better)
+	 * 0 = same preset ID, 1 = identical type, 2 = type of the same family
+	 *
+	 * @returns Rank and type match, or null if the tray type is not compatible
+	 */
+	private static rankTray(
+		profile: FilamentProfile,
+		tray: AMSTrayStatus,
+		typeFamilies: Array<Set<string>>,
+	): { rank: number; typeMatch: FilamentTypeMatchMode } | null {
+		const typeMatch = this.getTypeMatch(profile.type, tray.type, typeFamilies);
+
+		// The same preset is the same filament, even if the type names differ
+		if (this.isPresetMatch(profile, tray)) {
+			return { rank: 0, typeMatch: typeMatch ?? 'exact' };
+		}
+
+		if (!typeMatch) {
+			return null;
+		}
+
+		return { rank: typeMatch === 'exact' ? 1 : 2, typeMatch };
+	}
+
+	/**
+	 * Whether profile and tray report the same filament preset ID
+	 * Unknown (empty) preset IDs never match
+	 */
+	private static isPresetMatch(profile: FilamentProfile, tray: AMSTrayStatus): boolean {
+		const profilePresetId = profile.presetId.trim().toUpperCase();
+		return profilePresetId !== '' && profilePresetId === tray.presetId.trim().toUpperCase();
+	}
+
+	/**
+	 * Create a match result for a profile and the tray it was matched to
+	 */
+	private static createMatch(
+		profile: FilamentProfile,
+		tray: AMSTrayStatus,
+		matchQuality: FilamentMatchQuality,
+		colorDistance: number,
+		typeMatch: FilamentTypeMatchMode,
+	): MatchedFilamentProfile {
+		return {
+			...profile,
+			matchedSlot: this.getSlotNumber(tray),
+			matchedTrayId: tray.globalId,
+			matchedAmsId: tray.amsId,
+			matchQuality,
+			colorDistance,
+			typeMatch,
+			presetMatch: this.isPresetMatch(profile, tray),
+			currentColor: tray.color,
+			currentType: tray.type,
+			currentPresetId: tray.presetId,
+			remainingGrams: this.getRemainingGrams(tray),
+			sufficient: null,
+		};
+	}
+
+	/**
+	 * Compare the filament usage with the filament left on each matched tray
+	 * Sets `sufficient` on every match. Usage of profiles mapped to the same
+	 * tray is added up.
+	 *
+	 * @returns One message per tray that does not hold enough filament
+	 */
+	private static checkSufficiency(matches: MatchedFilamentProfile[]): string[] {
+		const shortages: string[] = [];
+		const requiredByTray = new Map<number, number | null>();
+
+		// Usage is unknown for the whole tray if it is unknown for one of its profiles
+		for (const match of matches) {
+			const previous = requiredByTray.get(match.matchedTrayId);
+			requiredByTray.set(
+				match.matchedTrayId,
+				previous === undefined
+					? match.usedGrams
+					: previous === null || match.usedGrams === null
+						? null
+						: previous + match.usedGrams,
+			);
+		}
+
+		for (const match of matches) {
+			const required = requiredByTray.get(match.matchedTrayId) ?? null;
+			match.sufficient =
+				required === null || match.remainingGrams === null
+					? null
+					: match.remainingGrams >= required;
+		}
+
+		for (const [trayId, required] of requiredByTray) {
+			const match = matches.find((m) => m.matchedTrayId === trayId);
+			if (!match || match.sufficient !== false || required === null) {
+				continue;
 			}
+
+			const slot = match.matchedAmsId === null ? 'the external spool' : `slot ${match.matchedSlot}`;
+			shortages.push(
+				`Not enough filament in ${slot} (${match.currentType} ${match.currentColor}): ` +
+					`print needs ${required.toFixed(1)} g, about ${(match.remainingGrams ?? 0).toFixed(1)} g left`,
+			);
 		}
 
-		return null; // No match found
+		return shortages;
+	}
+
+	/**
+	 * Estimate the filament left on a tray in grams (spool weight x remaining percent)
+	 *
+	 * @returns Remaining grams, or null if the AMS cannot estimate it
+	 */
+	private static getRemainingGrams(tray: AMSTrayStatus): number | null {
+		if (tray.weightGrams === null || tray.remainPercent === null) {
+			return null;
+		}
+
+		return Math.round(((tray.weightGrams * tray.remainPercent) / 100) * 10) / 10;
+	}
+
+	/**
+	 * Whether tray a has more filament left than tray b (unknown counts as least)
+	 */
+	private static hasMoreFilament(a: AMSTrayStatus, b: AMSTrayStatus): boolean {
+		return (this.getRemainingGrams(a) ?? -1) > (this.getRemainingGrams(b) ?? -1);
+	}
+
+	/**
+	 * Compare a profile type with a tray type
+	 *
+	 * @returns 'exact' for identical types, 'equivalent' for types of the same
+	 * family, null if the types are not compatible
+	 */
+	private static getTypeMatch(
+		profileType: string,
+		trayType: string,
+		typeFamilies: Array<Set<string>>,
+	): FilamentTypeMatchMode | null {
+		const normalizedProfileType = this.normalizeType(profileType);
+		const normalizedTrayType = this.normalizeType(trayType);
+
+		if (normalizedProfileType === normalizedTrayType) {
+			return 'exact';
+		}
+
+		const sameFamily = typeFamilies.some(
+			(family) => family.has(normalizedProfileType) && family.has(normalizedTrayType),
+		);
+
+		return sameFamily ? 'equivalent' : null;
+	}
+
+	/**
+	 * Build the type families from the built-in table and user-defined families
+	 * A user-defined family replaces the built-in family with the same name
+	 *
+	 * @param overrides User-defined families (family name to equivalent types)
+	 * @returns Families as sets of normalized types
+	 */
+	private static getTypeFamilies(overrides: Record<string, string[]> = {}): Array<Set<string>> {
+		const families = new Map<string, Set<string>>();
+
+		const addFamily = (name: string, types: readonly string[]) => {
+			const normalizedName = this.normalizeType(name);
+			families.set(
+				normalizedName,
+				new Set([normalizedName, ...types.map((type) => this.normalizeType(type))]),
+			);
+		};
+
+		for (const [name, types] of Object.entries(FILAMENT_MATCHING.TYPE_EQUIVALENCES)) {
+			addFamily(name, types);
+		}
+		for (const [name, types] of Object.entries(overrides)) {
+			addFamily(name, types);
+		}
+
+		return [...families.values()];
 	}
 
 	/**
@@ -170,32 +500,44 @@ export class FilamentMatcher {
 	 * Handles variations:
 	 * - Case: PLA = pla = Pla
 	 * - Whitespace: " PLA " = "PLA"
+	 * - Separators: PLA-CF = PLA CF = PLA_CF
 	 *
 	 * @param type Filament type string
 	 * @returns Normalized uppercase type
 	 */
 	private static normalizeType(type: string): string {
-		return type.trim().toUpperCase();
+		return type
+			.trim()
+			.toUpperCase()
+			.replace(/[\s_-]+/g, ' ');
 	}
 
 	/**
 	 * Format available filaments for error messages
 	 *
 	 * @param trays Array of AMS trays
-	 * @returns Human-readable string like "Slot 1: PLA (#FF0000), Slot 2: PETG (#000000)"
+	 * @returns Human-readable string like "Slot 1: PLA (#FF0000), Slot 5: PETG (#000000), External: TPU (#FFFFFF)"
 	 */
-	private static formatAvailableFilaments(trays: AMSTray[]): string {
+	private static formatAvailableFilaments(trays: AMSTrayStatus[]): string {
 		if (!trays || trays.length === 0) {
 			return 'No filaments loaded';
 		}
 
 		return trays
 			.map((tray) => {
-				const slot = parseInt(tray.id || '0', 10) + 1;
-				const type = tray.tray_type || 'Unknown';
-				const color = tray.tray_color || 'Unknown';
-				return `Slot ${slot}: ${type} (${color})`;
+				const slot = tray.amsId === null ? 'External' : `Slot ${this.getSlotNumber(tray)}`;
+				const type = tray.type || 'Unknown';
+				const color = tray.color || 'Unknown';
+				return `${slot}: ${type} (${color})`;
 			})
 			.join(', ');
 	}
+
+	/**
+	 * Get the 1-indexed slot number across all AMS units (0 for the external spool)
+	 * AMS 1 has slots 1-4, AMS 2 slots 5-8, ...
+	 */
+	private static getSlotNumber(tray: AMSTrayStatus): number {
+		return tray.amsId === null ? 0 : tray.globalId + 1;
+	}
 }
@@ -1,5 +1,7 @@
-import AdmZip from 'adm-zip';
-import type { FilamentProfile, ParsedFilamentData } from './types';
+import type { FilamentProfile, ParsedFilamentData, PrinterModel } from './types';
+import { ThreeMfArchive } from './ThreeMfArchive';
+import { FILE_PATHS } from './constants';
+import { PrinterModels } from './PrinterModels';
 
 /**
  * Parser for extracting filament profile information from Bambu Lab .3mf files
@@ -13,6 +15,8 @@ export class FilamentProfileParser {
 	 * Parse .3mf file buffer and extract filament usage information
 	 *
 	 * @param buffer Buffer containing .3mf file data
+	 * @param plate Plate number to read (1-indexed, default: 1)
+	 * @param printerModel Target printer model, limits the valid AMS slot numbers
 	 * @returns Parsed filament data with profiles and mapping
 	 * @throws Error if file is invalid or required data is missing
 	 *
@@ -21,32 +25,52 @@ export class FilamentProfileParser {
 	 * const data = FilamentProfileParser.parseFromBuffer(fileBuffer);
 	 * console.log(data.detectedMapping); // [0, 1] for 2-color print
 	 */
-	static parseFromBuffer(buffer: Buffer): ParsedFilamentData {
-		let zip: AdmZip;
+	static parseFromBuffer(
+		buffer: Buffer,
+		plate: number = FILE_PATHS.DEFAULT_PLATE,
+		printerModel: PrinterModel = PrinterModels.UNKNOWN,
+	): ParsedFilamentData {
+		return this.parseFromArchive(ThreeMfArchive.fromBuffer(buffer), plate, printerModel);
+	}
 
-		// Step 1: Unzip the .3mf file
-		try {
-			zip = new AdmZip(buffer);
-		} catch (error) {
-			throw new Error(
-				`Failed to read .3mf file: Not a valid ZIP archive. ${
-					error instanceof Error ? error.message : String(error)
-				}`,
-			);
-		}
+	/**
+	 * Parse filament usage of one plate from an opened .3mf archive
+	 *
+	 * @param archive Opened .3mf archive
+	 * @param plate Plate number to read (1-indexed, default: 1)
+	 * @param printerModel Target printer model, limits the valid AMS slot numbers
+	 * @returns Parsed filament data with profiles and mapping
+	 * @throws Error if the plate is not sliced or required data is missing
+	 */
+	static parseFromArchive(
+		archive: ThreeMfArchive,
+		plate: number = FILE_PATHS.DEFAULT_PLATE,
+		printerModel: PrinterModel = PrinterModels.UNKNOWN,
+	): ParsedFilamentData {
+		const gcodePath = FILE_PATHS.PLATE_GCODE_PATH(plate);
+		const gcodeContent = archive.getPlateGcode(plate);
 
-		// Step 2: Extract Metadata/plate_1.gcode
-		const gcodeEntry = zip.getEntry('Metadata/plate_1.gcode');
-		if (!gcodeEntry) {
+		if (gcodeContent === null) {
+			const slicedPlates = archive.getSlicedPlates();
 			throw new Error(
-				'Failed to parse .3mf file: Metadata/plate_1.gcode not found. This file may not be a sliced .3mf file, or may be corrupted.',
+				`Failed to parse .3mf file: ${gcodePath} not found. ` +
+					(slicedPlates.length > 0
+						? `Sliced plates in this file: ${slicedPlates.join(', ')}`
+						: 'This file may not be a sliced .3mf file, or may be corrupted.'),
 			);
 		}
 
-		const gcodeContent = gcodeEntry.getData().toString('utf8');
+		const parsedData = this.parseGcodeHeader(gcodeContent, printerModel);
+
+		// Older slicer versions do not write filament_ids to the G-code header
+		if (parsedData.profiles.every((profile) => !profile.presetId)) {
+			const presetIds = this.getProjectPresetIds(archive);
+			for (const profile of parsedData.profiles) {
+				profile.presetId = presetIds[profile.index] ?? '';
+			}
+		}
 
-		// Step 3: Parse gcode header
-		return this.parseGcodeHeader(gcodeContent);
+		return parsedData;
 	}
 
 	/**
@@ -57,8 +81,19 @@ export class FilamentProfileParser {
 	 * ; filament_type = PETG;PETG;PLA;PLA;TPU
 	 * ; filament_colour = #515151;#000000;#68724D;#042F56;#2850E0
 	 * ; filament_settings_id = "Name1";"Name2";"Name3";"Name4";"Name5"
+	 * ; filament_ids = GFA00;GFA00;GFL99;GFL99;GFU01
+	 *
+	 * Filament usage of the plate is read from the header block:
+	 * ; total filament length [mm] : 2501.86,2492.10
+	 * ; total filament weight [g] : 7.47,7.44
+	 * (or "; filament used [mm] =" / "; filament used [g] ="), with one value per
+	 * used slot. Lengths are converted to grams with filament_density and
+	 * filament_diameter when no weight is given.
 	 */
-	private static parseGcodeHeader(gcodeContent: string): ParsedFilamentData {
+	private static parseGcodeHeader(
+		gcodeContent: string,
+		printerModel: PrinterModel,
+	): ParsedFilamentData {
 		// Read only first 500 lines (header section)
 		const lines = gcodeContent.split('\n').slice(0, 500);
 
@@ -66,6 +101,11 @@ export class FilamentProfileParser {
 		let filamentTypes: string[] = [];
 		let filamentColours: string[] = [];
 		let filamentNames: string[] = [];
+		let filamentIds: string[] = [];
+		let usedGrams: number[] = [];
+		let usedMm: number[] = [];
+		let densities: number[] = [];
+		let diameters: number[] = [];
 
 		// Parse comment lines
 		for (const line of lines) {
@@ -76,7 +116,7 @@ export class FilamentProfileParser {
 			// Parse "; filament: 1,2" or "; filament: 2"
 			if (comment.startsWith('filament:')) {
 				const value = comment.substring('filament:'.length).trim();
-				slotsUsed = this.parseSlotUsage(value);
+				slotsUsed = this.parseSlotUsage(value, printerModel);
 			}
 
 			// Parse "; filament_type = PETG;PETG;PLA;PLA;TPU"
@@ -97,6 +137,32 @@ export class FilamentProfileParser {
 				// Split by semicolon and remove quotes
 				filamentNames = value.split(';').map((s) => s.trim().replace(/^"|"$/g, ''));
 			}
+
+			// Parse "; filament_ids = GFA00;GFL99;..."
+			else if (comment.startsWith('filament_ids =')) {
+				const value = comment.substring('filament_ids ='.length).trim();
+				filamentIds = value.split(';').map((s) => s.trim().replace(/^"|"$/g, ''));
+			}
+
+			// Parse "; total filament weight [g] : 7.47,7.44" or "; filament used [g] = 7.47, 7.44"
+			else if (/^(total filament weight|filament used) \[g\]\s*[:=]/.test(comment)) {
+				usedGrams = this.parseNumberList(comment.substring(comment.search(/[:=]/) + 1));
+			}
+
+			// Parse "; total filament length [mm] : 2501.86,2492.10" or "; filament used [mm] = ..."
+			else if (/^(total filament length|filament used) \[mm\]\s*[:=]/.test(comment)) {
+				usedMm = this.parseNumberList(comment.substring(comment.search(/[:=]/) + 1));
+			}
+
+			// Parse "; filament_density: 1.26,1.24,..." (one value per embedded profile)
+			else if (/^filament_density\s*[:=]/.test(comment)) {
+				densities = this.parseNumberList(comment.substring(comment.search(/[:=]/) + 1));
+			}
+
+			// Parse "; filament_diameter: 1.75,1.75,..." (one value per embedded profile)
+			else if (/^filament_diameter\s*[:=]/.test(comment)) {
+				diameters = this.parseNumberList(comment.substring(comment.search(/[:=]/) + 1));
+			}
 		}
 
 		// Validation
@@ -116,7 +182,7 @@ export class FilamentProfileParser {
 		const profiles: FilamentProfile[] = [];
 		const detectedMapping: number[] = [];
 
-		for (const slotNumber of slotsUsed) {
+		for (const [position, slotNumber] of slotsUsed.entries()) {
 			const profileIndex = slotNumber - 1; // Convert 1-indexed slot to 0-indexed profile
 			const trayId = slotNumber - 1; // Tray ID is also 0-indexed
 
@@ -132,6 +198,13 @@ export class FilamentProfileParser {
 				type: filamentTypes[profileIndex] || 'UNKNOWN',
 				colour: filamentColours[profileIndex] || '#FFFFFF',
 				name: filamentNames[profileIndex] || 'Unknown Profile',
+				presetId: filamentIds[profileIndex] || '',
+				...this.getFilamentUsage(
+					usedGrams[position],
+					usedMm[position],
+					densities[profileIndex],
+					diameters[profileIndex],
+				),
 				slotNumber,
 				trayId,
 			});
@@ -146,6 +219,62 @@ export class FilamentProfileParser {
 		};
 	}
 
+	/**
+	 * Parse a comma- or semicolon-separated list of numbers
+	 * Values that are not numbers become NaN so positions are kept
+	 */
+	private static parseNumberList(value: string): number[] {
+		return value
+			.split(/[,;]/)
+			.map((s) => s.trim())
+			.filter((s) => s !== '')
+			.map((s) => parseFloat(s));
+	}
+
+	/**
+	 * Get the filament usage of one profile in grams and millimeters
+	 * Converts the length to grams (volume x density) when the weight is missing
+	 */
+	private static getFilamentUsage(
+		grams: number | undefined,
+		mm: number | undefined,
+		density: number | undefined,
+		diameter: number | undefined,
+	): { usedGrams: number | null; usedMm: number | null } {
+		const usedMm = mm !== undefined && Number.isFinite(mm) ? mm : null;
+		let usedGrams = grams !== undefined && Number.isFinite(grams) ? grams : null;
+
+		if (
+			usedGrams === null &&
+			usedMm !== null &&
+			density !== undefined &&
+			diameter !== undefined &&
+			Number.isFinite(density) &&
+			Number.isFinite(diameter)
+		) {
+			// mm^3 -> cm^3 (/ 1000) x g/cm^3
+			const volumeCm3 = (usedMm * Math.PI * Math.pow(diameter / 2, 2)) / 1000;
+			usedGrams = Math.round(volumeCm3 * density * 100) / 100;
+		}
+
+		return { usedGrams, usedMm };
+	}
+
+	/**
+	 * Read the filament preset IDs from the project settings
+	 *
+	 * @returns Preset IDs by profile index (empty if not available)
+	 */
+	private static getProjectPresetIds(archive: ThreeMfArchive): string[] {
+		const filamentIds = archive.getProjectSettings()?.filament_ids;
+
+		if (!Array.isArray(filamentIds)) {
+			return [];
+		}
+
+		return filamentIds.map((id) => (typeof id === 'string' ? id.trim() : ''));
+	}
+
 	/**
 	 * Parse slot usage from "; filament:" comment
 	 *
@@ -154,16 +283,17 @@ export class FilamentProfileParser {
 	 * - "2" -> [2]
 	 * - "1,3,4" -> [1, 3, 4]
 	 */
-	private static parseSlotUsage(value: string): number[] {
+	private static parseSlotUsage(value: string, printerModel: PrinterModel): number[] {
+		const maxSlots = PrinterModels.getMaxTraySlots(printerModel);
 		const slots = value
 			.split(',')
 			.map((s) => s.trim())
 			.filter((s) => s !== '')
 			.map((s) => {
 				const num = parseInt(s, 10);
-				if (isNaN(num) || num < 1 || num > 4) {
+				if (isNaN(num) || num < 1 || num > maxSlots) {
 					throw new Error(
-						`Invalid AMS slot number: "${s}". Must be 1-4 for A1 series.`,
+						`Invalid AMS slot number: "${s}". Must be 1-${maxSlots} for ${printerModel.name}.`,
 					);
 				}
 				return num;
@@ -2,14 +2,21 @@ import * as mqtt from 'mqtt';
 import type { MqttClient, IClientOptions } from 'mqtt';
 import type {
 	BambuLabCredentials,
+	PrinterReport,
 	PrinterStatus,
 	MQTTMessage,
 	CommandResponse,
 	AnyCommand,
+	InfoCommand,
+	InfoReport,
+	PrinterModel,
 } from './types';
 import { TIMEOUTS, INTERVALS, LIMITS, PRINTER_DEFAULTS } from './constants';
 import { ErrorHelper } from './ErrorHelper';
 import { RetryHelper } from './RetryHelper';
+import { PrinterStateStore } from './PrinterStateStore';
+import { PrinterStatusParser } from './PrinterStatusParser';
+import { PrinterModels } from './PrinterModels';
 
 /**
  * MQTT Helper for Bambu Lab Printer Communication
@@ -26,11 +33,19 @@ export class BambuLabMqttClient {
 
 	private messageBuffer: MQTTMessage[] = [];
 
+	private stateStore = new PrinterStateStore();
+
+	private lastFullReportAt: Date | null = null;
+
 	private connectionTimeout = TIMEOUTS.MQTT_CONNECTION;
 
 	private responseTimeout = TIMEOUTS.MQTT_RESPONSE;
 
-	private updateCallback?: (status: PrinterStatus) => void;
+	private updateCallback?: (report: PrinterReport) => void;
+
+	private connectionLostCallback?: (error?: Error) => void;
+
+	private disconnecting = false;
 
 	private lastParseError: Error | null = null;
 
@@ -78,7 +93,11 @@ export class BambuLabMqttClient {
 			};
 
 			try {
-				this.client = mqtt.connect(brokerUrl, options);
+				this.disconnecting = false;
+				const client = mqtt.connect(brokerUrl, options);
+				this.client = client;
+				let established = false;
+				let lastError: Error | undefined;
 
 				// Connection timeout
 				const timeout = setTimeout(() => {
@@ -89,6 +108,7 @@ export class BambuLabMqttClient {
 				// Connection successful
 				this.client.on('connect', () => {
 					clearTimeout(timeout);
+					established = true;
 					// Subscribe to printer reports
 					this.client?.subscribe(this.reportTopic, (err) => {
 						if (err) {
@@ -102,9 +122,19 @@ export class BambuLabMqttClient {
 				// Connection error
 				this.client.on('error', (error) => {
 					clearTimeout(timeout);
+					lastError = error;
 					reject(new Error(`MQTT connection error: ${error.message}`));
 				});
 
+				// Connection dropped after it was established (not by disconnect())
+				this.client.on('close', () => {
+					if (!established || this.disconnecting || this.client !== client) {
+						return;
+					}
+					established = false;
+					this.connectionLostCallback?.(lastError);
+				});
+
 				// Handle incoming messages
 				this.client.on('message', (topic, message) => {
 					try {
@@ -116,9 +146,18 @@ export class BambuLabMqttClient {
 						}
 						this.messageBuffer.push(parsedMessage);
 
+						// Merge reports into the state snapshot before notifying listeners
+						if (topic === this.reportTopic) {
+							const receivedAt = new Date();
+							this.stateStore.update(parsedMessage as PrinterReport, receivedAt);
+							if (BambuLabMqttClient.isFullReport(parsedMessage)) {
+								this.lastFullReportAt = receivedAt;
+							}
+						}
+
 						// Also call the update callback if registered
 						if (this.updateCallback && topic === this.reportTopic) {
-							this.updateCallback(parsedMessage as PrinterStatus);
+							this.updateCallback(parsedMessage as PrinterReport);
 						}
 					} catch (error) {
 						// Track parse errors for debugging
@@ -169,7 +208,9 @@ export class BambuLabMqttClient {
 						? command.system.sequence_id
 						: 'gcode_line' in command
 							? command.gcode_line.sequence_id
-							: undefined;
+							: 'info' in command
+								? command.info.sequence_id
+								: undefined;
 
 		// Publish without waiting for callback (mqtt.js has known callback reliability issues)
 		this.client.publish(this.requestTopic, commandStr, { qos: 1 });
@@ -210,7 +251,8 @@ export class BambuLabMqttClient {
 								msg.print?.sequence_id === commandSeqId ||
 								msg.pushing?.sequence_id === commandSeqId ||
 								msg.system?.sequence_id === commandSeqId ||
-								msg.gcode_line?.sequence_id === commandSeqId,
+								msg.gcode_line?.sequence_id === commandSeqId ||
+								msg.info?.sequence_id === commandSeqId,
 						);
 					}
 
@@ -236,18 +278,23 @@ export class BambuLabMqttClient {
 	}
 
 	/**
-	 * Get current printer status
-	 * Sends a "pushall" command and waits for the response
-	 * Note: Does not wait for publish callback due to mqtt.js callback reliability issues
+	 * Get current printer status, normalized by PrinterStatusParser
 	 */
 	async getStatus(): Promise<PrinterStatus> {
+		return PrinterStatusParser.parse(await this.getReport());
+	}
+
+	/**
+	 * Get the raw printer report
+	 * Sends a "pushall" command and waits for the full report, then returns the
+	 * merged snapshot from the state store (see PrinterStateStore)
+	 * Note: Does not wait for publish callback due to mqtt.js callback reliability issues
+	 */
+	async getReport(): Promise<PrinterReport> {
 		if (!this.client || !this.client.connected) {
 			throw ErrorHelper.mqttNotConnected();
 		}
 
-		// Clear message buffer
-		this.messageBuffer = [];
-
 		// Send pushall command to request full status
 		const pushCommand = {
 			pushing: {
@@ -258,6 +305,8 @@ export class BambuLabMqttClient {
 			},
 		};
 
+		const requestedAt = new Date();
+
 		// Publish without waiting for callback (mqtt.js has known callback reliability issues)
 		this.client.publish(this.requestTopic, JSON.stringify(pushCommand), { qos: 1 });
 
@@ -276,48 +325,187 @@ export class BambuLabMqttClient {
 				reject(ErrorHelper.statusTimeout(this.responseTimeout));
 			}, this.responseTimeout);
 
-			// Poll for response in message buffer (optimized interval)
-			const expectedSeqId = pushCommand.pushing.sequence_id;
+			// Poll the state store (optimized interval)
+			checkInterval = setInterval(() => {
+				const lastUpdate = this.stateStore.getLastUpdate();
+				if (!lastUpdate || lastUpdate < requestedAt) {
+					return;
+				}
+
+				// Prefer the full pushall report so the snapshot is complete;
+				// fall back to partial reports if no full report arrives in time
+				const fullReportReceived =
+					this.lastFullReportAt !== null && this.lastFullReportAt >= requestedAt;
+				const graceExpired = Date.now() - requestedAt.getTime() >= TIMEOUTS.FULL_STATUS_GRACE;
+
+				if (fullReportReceived || (graceExpired && this.stateStore.hasState())) {
+					cleanup();
+					resolve(this.stateStore.getSnapshot());
+				}
+			}, INTERVALS.MESSAGE_POLL); // Optimized from 100ms to 250ms
+		});
+	}
+
+	/**
+	 * Wait until the printer status satisfies a condition
+	 * Requests a full report, then evaluates the condition against the merged
+	 * snapshot on every poll. If the condition throws, the wait is aborted
+	 * with that error.
+	 *
+	 * @param condition Returns true when the wait is complete
+	 * @param options.timeout Maximum time to wait in milliseconds
+	 * @param options.progressInterval Interval for onProgress callbacks in milliseconds (0 = off)
+	 * @param options.onProgress Called periodically with the current status while waiting
+	 * @returns The status that satisfied the condition
+	 */
+	async waitForStatus(
+		condition: (status: PrinterStatus) => boolean,
+		options: {
+			timeout: number;
+			progressInterval?: number;
+			onProgress?: (status: PrinterStatus) => void;
+		},
+	): Promise<PrinterStatus> {
+		if (!this.client || !this.client.connected) {
+			throw ErrorHelper.mqttNotConnected();
+		}
+
+		const pushCommand = {
+			pushing: {
+				sequence_id: Date.now().toString(),
+				command: 'pushall',
+				version: 1,
+				push_target: 1,
+			},
+		};
+
+		const requestedAt = new Date();
+		this.client.publish(this.requestTopic, JSON.stringify(pushCommand), { qos: 1 });
+
+		return new Promise((resolve, reject) => {
+			let timeout: NodeJS.Timeout | null = null;
+			let checkInterval: NodeJS.Timeout | null = null;
+			let lastProgressAt = Date.now();
+
+			const cleanup = () => {
+				if (timeout) clearTimeout(timeout);
+				if (checkInterval) clearInterval(checkInterval);
+			};
+
+			timeout = setTimeout(() => {
+				cleanup();
+				reject(ErrorHelper.waitTimeout(options.timeout));
+			}, options.timeout);
 
 			checkInterval = setInterval(() => {
-				if (this.messageBuffer.length > 0) {
-					let status: PrinterStatus | undefined;
-
-					// Prefer messages that have AMS data (more complete status)
-					// This ensures we get the full printer state, not just a partial update
-					status = this.messageBuffer.find(
-						(msg) => (msg as any).print?.ams !== undefined,
-					) as PrinterStatus | undefined;
-
-					// Fallback: if no AMS data found, try matching sequence ID
-					if (!status) {
-						status = this.messageBuffer.find(
-							(msg) => msg.pushing?.sequence_id === expectedSeqId,
-						) as PrinterStatus | undefined;
-					}
+				if (!this.isConnected()) {
+					cleanup();
+					reject(ErrorHelper.mqttNotConnected());
+					return;
+				}
 
-					// Final fallback: take the last message
-					if (!status) {
-						status = this.messageBuffer[this.messageBuffer.length - 1] as PrinterStatus;
-					}
+				// Only evaluate once fresh data has arrived after the pushall request
+				const lastUpdate = this.stateStore.getLastUpdate();
+				if (!lastUpdate || lastUpdate < requestedAt) {
+					return;
+				}
 
-					// If we found a status, return it
-					if (status) {
-						cleanup();
-						this.messageBuffer = [];
+				const status = PrinterStatusParser.parse(this.stateStore.getSnapshot());
 
+				try {
+					if (condition(status)) {
+						cleanup();
 						resolve(status);
+						return;
 					}
+				} catch (error) {
+					cleanup();
+					reject(error);
+					return;
 				}
-			}, INTERVALS.MESSAGE_POLL); // Optimized from 100ms to 250ms
+
+				if (
+					options.onProgress &&
+					options.progressInterval &&
+					Date.now() - lastProgressAt >= options.progressInterval
+				) {
+					lastProgressAt = Date.now();
+					options.onProgress(status);
+				}
+			}, INTERVALS.MESSAGE_POLL);
 		});
 	}
 
 	/**
-	 * Subscribe to printer status updates with a callback
+	 * Get firmware and module version info
+	 * Sends "get_version" and waits for the reply (other reports are ignored)
+	 */
+	async getVersionInfo(timeout: number = TIMEOUTS.VERSION_INFO): Promise<InfoReport> {
+		if (!this.client || !this.client.connected) {
+			throw ErrorHelper.mqttNotConnected();
+		}
+
+		const sequenceId = Date.now().toString();
+		const versionCommand: InfoCommand = {
+			info: {
+				sequence_id: sequenceId,
+				command: 'get_version',
+			},
+		};
+
+		this.client.publish(this.requestTopic, JSON.stringify(versionCommand), { qos: 1 });
+
+		return new Promise((resolve, reject) => {
+			const checkInterval = setInterval(() => {
+				const reply = this.messageBuffer.find(
+					(msg) => msg.info?.command === 'get_version' && msg.info.sequence_id === sequenceId,
+				);
+				if (reply?.info) {
+					clearInterval(checkInterval);
+					clearTimeout(timer);
+					resolve(reply.info);
+				}
+			}, INTERVALS.MESSAGE_POLL);
+
+			const timer = setTimeout(() => {
+				clearInterval(checkInterval);
+				reject(ErrorHelper.commandResponseTimeout(timeout));
+			}, timeout);
+		});
+	}
+
+	/**
+	 * Detect the printer model
+	 * Uses the serial number prefix and only asks the printer ("get_version")
+	 * when the prefix is unknown. Falls back to PrinterModels.UNKNOWN.
+	 */
+	async getPrinterModel(): Promise<PrinterModel> {
+		const fromSerial = PrinterModels.fromSerialNumber(this.credentials.serialNumber);
+		if (fromSerial) {
+			return fromSerial;
+		}
+
+		try {
+			return PrinterModels.detect(this.credentials.serialNumber, await this.getVersionInfo());
+		} catch {
+			return PrinterModels.UNKNOWN;
+		}
+	}
+
+	/**
+	 * Get the state store holding the merged printer snapshot
+	 * Updated with every report received while connected
+	 */
+	getStateStore(): PrinterStateStore {
+		return this.stateStore;
+	}
+
+	/**
+	 * Subscribe to printer reports with a callback
+	 * Receives each raw report (usually a delta) after it was merged into the state store
 	 * Useful for real-time monitoring
 	 */
-	subscribeToUpdates(callback: (status: PrinterStatus) => void): void {
+	subscribeToUpdates(callback: (report: PrinterReport) => void): void {
 		if (!this.client) {
 			throw new Error('MQTT client is not initialized');
 		}
@@ -326,6 +514,14 @@ export class BambuLabMqttClient {
 		this.updateCallback = callback;
 	}
 
+	/**
+	 * Register a callback for unexpected connection drops
+	 * Not invoked when the connection is closed via disconnect() or forceDisconnect()
+	 */
+	onConnectionLost(callback: (error?: Error) => void): void {
+		this.connectionLostCallback = callback;
+	}
+
 	/**
 	 * Get the MQTT client instance (for advanced usage)
 	 */
@@ -364,6 +560,14 @@ export class BambuLabMqttClient {
 		return [...this.parseErrorHistory]; // Return copy to prevent external modification
 	}
 
+	/**
+	 * Whether a report is the full state sent in response to "pushall"
+	 * (deltas carry msg: 1, the full report msg: 0)
+	 */
+	private static isFullReport(message: MQTTMessage): boolean {
+		return message.print?.command === 'push_status' && message.print?.msg === 0;
+	}
+
 	/**
 	 * Disconnect from the printer with timeout
 	 * Attempts graceful disconnect, but falls back to force disconnect if callback doesn't fire
@@ -373,6 +577,8 @@ export class BambuLabMqttClient {
 			return;
 		}
 
+		this.disconnecting = true;
+
 		return new Promise<void>((resolve) => {
 			const disconnectTimeout = TIMEOUTS.GRACEFUL_DISCONNECT;
 			let disconnected = false;
@@ -424,6 +630,7 @@ export class BambuLabMqttClient {
 	 */
 	forceDisconnect(): void {
 		if (this.client) {
+			this.disconnecting = true;
 			this.client.end(true);
 			this.client = null;
 			this.messageBuffer = [];
@@ -0,0 +1,169 @@
+import type {
+	PreflightCheck,
+	PreflightResult,
+	PrinterModel,
+	PrinterStatus,
+	ThreeMfProjectInfo,
+} from './types';
+import { PREFLIGHT } from './constants';
+import { PrinterModels } from './PrinterModels';
+
+/**
+ * Pre-flight check before starting a print
+ *
+ * Compares what a .3mf file was sliced for with the printer it is about to be
+ * printed on:
+ * - printer model (project printer_model / printer_model_id vs. detected model)
+ * - nozzle diameter (sliced vs. reported nozzle_diameter)
+ * - bed type (reported for information, printers do not report the installed plate)
+ * - printer state (gcode_state must be IDLE or FINISH)
+ *
+ * Checks are skipped (passed: null) when the file or the printer does not
+ * provide the information; only failed checks make the pre-flight fail.
+ *
+ * @example
+ * const result = PreflightChecker.check(projectInfo, 1, status, printerModel);
+ * if (!result.passed) {
+ *   throw new Error(`Pre-flight check failed: ${result.reasons.join('; ')}`);
+ * }
+ */
+export class PreflightChecker {
+	/**
+	 * Run all pre-flight checks for one plate
+	 *
+	 * @param project Project metadata of the .3mf file
+	 * @param plate Plate that will be printed
+	 * @param status Current normalized printer status
+	 * @param printerModel Detected printer model
+	 * @returns Result of all checks and the reasons of failed checks
+	 */
+	static check(
+		project: ThreeMfProjectInfo,
+		plate: number,
+		status: PrinterStatus,
+		printerModel: PrinterModel,
+	): PreflightResult {
+		const plateInfo = project.plates.find((p) => p.plate === plate);
+
+		const checks: PreflightCheck[] = [
+			this.checkPrinterModel(project, plateInfo?.slicerModelId ?? null, printerModel),
+			this.checkNozzleDiameter(plateInfo?.nozzleDiameter ?? project.nozzleDiameter, status),
+			this.checkBedType(plateInfo?.bedType ?? project.bedType),
+			this.checkPrinterState(status),
+		];
+
+		const reasons = checks.filter((c) => c.passed === false).map((c) => c.message);
+
+		return {
+			passed: reasons.length === 0,
+			checks,
+			reasons,
+		};
+	}
+
+	/**
+	 * Check that the file was sliced for the detected printer model
+	 */
+	private static checkPrinterModel(
+		project: ThreeMfProjectInfo,
+		slicerModelId: string | null,
+		printerModel: PrinterModel,
+	): PreflightCheck {
+		const slicedFor = project.printerModelId
+			? PrinterModels.get(project.printerModelId)
+			: PrinterModels.fromSlicerModelId(slicerModelId ?? undefined);
+		const expected = slicedFor?.name ?? project.printerModel;
+
+		if (!slicedFor || printerModel.id === PrinterModels.UNKNOWN.id) {
+			return {
+				name: 'printerModel',
+				passed: null,
+				expected,
+				actual: printerModel.id === PrinterModels.UNKNOWN.id ? null : printerModel.name,
+				message: !slicedFor
+					? 'Skipped: the file does not name a known printer model'
+					: 'Skipped: the printer model could not be detected',
+			};
+		}
+
+		const passed = slicedFor.id === printerModel.id;
+		return {
+			name: 'printerModel',
+			passed,
+			expected: slicedFor.name,
+			actual: printerModel.name,
+			message: passed
+				? `File was sliced for ${printerModel.name}`
+				: `File was sliced for ${slicedFor.name}, but the printer is a ${printerModel.name}`,
+		};
+	}
+
+	/**
+	 * Check that the sliced nozzle diameter matches the installed nozzle
+	 */
+	private static checkNozzleDiameter(
+		slicedDiameter: number | null,
+		status: PrinterStatus,
+	): PreflightCheck {
+		const installedDiameter = status.nozzle.diameter;
+		const expected = slicedDiameter !== null ? `${slicedDiameter} mm` : null;
+		const actual = installedDiameter !== null ? `${installedDiameter} mm` : null;
+
+		if (slicedDiameter === null || installedDiameter === null) {
+			return {
+				name: 'nozzleDiameter',
+				passed: null,
+				expected,
+				actual,
+				message:
+					slicedDiameter === null
+						? 'Skipped: the file does not specify a nozzle diameter'
+						: 'Skipped: the printer did not report its nozzle diameter',
+			};
+		}
+
+		const passed =
+			Math.abs(slicedDiameter - installedDiameter) <= PREFLIGHT.NOZZLE_DIAMETER_TOLERANCE;
+		return {
+			name: 'nozzleDiameter',
+			passed,
+			expected,
+			actual,
+			message: passed
+				? `Nozzle diameter ${installedDiameter} mm matches`
+				: `File was sliced for a ${slicedDiameter} mm nozzle, but a ${installedDiameter} mm nozzle is installed`,
+		};
+	}
+
+	/**
+	 * Report the bed type of the file
+	 * Printers do not report the installed build plate, so this check never fails
+	 */
+	private static checkBedType(bedType: string | null): PreflightCheck {
+		return {
+			name: 'bedType',
+			passed: null,
+			expected: bedType,
+			actual: null,
+			message: bedType
+				? `Skipped: the printer does not report the installed plate. Make sure a ${bedType} is installed`
+				: 'Skipped: the file does not specify a bed type',
+		};
+	}
+
+	/**
+	 * Check that the printer is ready for a new print
+	 */
+	private static checkPrinterState(status: PrinterStatus): PreflightCheck {
+		const passed = PREFLIGHT.READY_STATES.includes(status.state);
+		return {
+			name: 'printerState',
+			passed,
+			expected: PREFLIGHT.READY_STATES.join(' or '),
+			actual: status.state,
+			message: passed
+				? `Printer is ready (${status.state})`
+				: `Printer is not ready: state is ${status.state}, expected ${PREFLIGHT.READY_STATES.join(' or ')}`,
+		};
+	}
+}
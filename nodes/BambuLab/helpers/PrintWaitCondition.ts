@@ -0,0 +1,81 @@
+import type { GcodeState, PrintWaitOptions, PrintWaitTarget, PrinterStatus } from './types';
+import { ErrorHelper } from './ErrorHelper';
+
+/** States that show that a print is in progress */
+const ACTIVE_STATES: GcodeState[] = ['PREPARE', 'RUNNING', 'PAUSE'];
+
+/**
+ * Wait condition for a print state, progress or layer
+ *
+ * Right after a print is started the printer still reports the previous job
+ * (e.g. FINISH at 100%) until it switches to PREPARE. By default the condition
+ * therefore only counts once print activity was seen: an active state
+ * (PREPARE, RUNNING, PAUSE) or a state different from the first one reported.
+ *
+ * @example
+ * const condition = new PrintWaitCondition({ type: 'state', state: 'FINISH' });
+ * const status = await mqttClient.waitForStatus((current) => condition.check(current), {
+ *   timeout: TIMEOUTS.WAIT_FOR_STATE,
+ * });
+ */
+export class PrintWaitCondition {
+	private target: PrintWaitTarget;
+
+	private requirePrintActivity: boolean;
+
+	private stopOnFailure: boolean;
+
+	private initialState: GcodeState | undefined;
+
+	private activitySeen = false;
+
+	constructor(target: PrintWaitTarget, options: PrintWaitOptions = {}) {
+		this.target = target;
+		this.requirePrintActivity = options.requirePrintActivity ?? true;
+		this.stopOnFailure = options.stopOnFailure ?? true;
+	}
+
+	/**
+	 * Check a status against the condition
+	 *
+	 * @param status Normalized status (see PrinterStatusParser)
+	 * @returns true when the condition is met
+	 * @throws Error if the print failed while waiting for another state (stopOnFailure)
+	 */
+	check(status: PrinterStatus): boolean {
+		// Nothing reported yet (e.g. only a partial report before pushall)
+		if (status.state === 'UNKNOWN') {
+			return false;
+		}
+
+		this.initialState ??= status.state;
+		if (ACTIVE_STATES.includes(status.state) || status.state !== this.initialState) {
+			this.activitySeen = true;
+		}
+
+		// A FAILED state left over from the previous print is not a failure of this one
+		const current = this.activitySeen || !this.requirePrintActivity;
+
+		if (
+			this.stopOnFailure &&
+			current &&
+			status.state === 'FAILED' &&
+			!(this.target.type === 'state' && this.target.state === 'FAILED')
+		) {
+			throw ErrorHelper.printFailedWhileWaiting(status.state);
+		}
+
+		if (!current) {
+			return false;
+		}
+
+		switch (this.target.type) {
+			case 'state':
+				return status.state === this.target.state;
+			case 'progress':
+				return status.progress.percent >= this.target.percent;
+			case 'layer':
+				return status.progress.layer >= this.target.layer;
+		}
+	}
+}
@@ -0,0 +1,105 @@
+import type { GcodeState, PrinterEvent, PrinterStatus } from './types';
+
+/**
+ * States from which a transition to PREPARE/RUNNING counts as a new print
+ * (PAUSE -> RUNNING is a resume, PREPARE -> RUNNING is the same print)
+ */
+const IDLE_STATES: GcodeState[] = ['IDLE', 'FINISH', 'FAILED'];
+
+/**
+ * Detector for printer events in a stream of status snapshots
+ *
+ * The detector remembers the last known state and active HMS codes and
+ * compares each normalized status against them. The first status with a
+ * known state is used as a baseline and does not produce events.
+ *
+ * @example
+ * const detector = new PrinterEventDetector();
+ * mqttClient.subscribeToUpdates(() => {
+ *   const status = PrinterStatusParser.parse(mqttClient.getStateStore().getSnapshot());
+ *   for (const event of detector.process(status)) {
+ *     console.log(event.event, event.state);
+ *   }
+ * });
+ */
+export class PrinterEventDetector {
+	private lastState: GcodeState | undefined;
+
+	private activeHmsCodes = new Set<string>();
+
+	/**
+	 * Process a status and return the events it produced (may be empty)
+	 *
+	 * @param status Normalized status (see PrinterStatusParser)
+	 * @returns Detected events, in the order they should be emitted
+	 */
+	process(status: PrinterStatus): PrinterEvent[] {
+		const events: PrinterEvent[] = [];
+
+		// Nothing reported yet (e.g. only a partial report before pushall)
+		if (status.state === 'UNKNOWN') {
+			return events;
+		}
+
+		const previousState = this.lastState;
+		const isBaseline = previousState === undefined;
+		this.lastState = status.state;
+
+		// State transitions
+		if (!isBaseline && status.state !== previousState) {
+			events.push({ event: 'stateChange', state: status.state, previousState });
+
+			const derived = this.classifyTransition(previousState, status.state);
+			if (derived) {
+				events.push({ event: derived, state: status.state, previousState });
+			}
+		}
+
+		// HMS errors - only report codes that were not already active
+		const added = status.hms.filter((entry) => !this.activeHmsCodes.has(entry.hmsCode));
+		this.activeHmsCodes = new Set(status.hms.map((entry) => entry.hmsCode));
+
+		if (!isBaseline && added.length > 0) {
+			events.push({ event: 'hmsError', state: status.state, hmsErrors: added });
+		}
+
+		return events;
+	}
+
+	/**
+	 * Get the last known gcode_state
+	 */
+	getLastState(): GcodeState | undefined {
+		return this.lastState;
+	}
+
+	/**
+	 * Forget all remembered state (next report becomes the new baseline)
+	 */
+	reset(): void {
+		this.lastState = undefined;
+		this.activeHmsCodes.clear();
+	}
+
+	/**
+	 * Map a gcode_state transition to a print lifecycle event
+	 */
+	private classifyTransition(
+		previousState: GcodeState,
+		state: GcodeState,
+	): PrinterEvent['event'] | undefined {
+		if ((state === 'PREPARE' || state === 'RUNNING') && IDLE_STATES.includes(previousState)) {
+			return 'printStarted';
+		}
+		if (state === 'FINISH') {
+			return 'printFinished';
+		}
+		if (state === 'FAILED') {
+			return 'printFailed';
+		}
+		if (state === 'PAUSE') {
+			return 'printPaused';
+		}
+		return undefined;
+	}
+}
@@ -0,0 +1,243 @@
+import type { InfoReport, PrinterModel, PrinterModelId } from './types';
+import { FILE_PATHS, PRINTER_DEFAULTS } from './constants';
+
+/**
+ * Known printer models and their capabilities
+ *
+ * The FTP root is the printer storage on all models, so files uploaded to "/"
+ * are printed from file:///sdcard/<name>.
+ */
+const MODELS: Record<PrinterModelId, PrinterModel> = {
+	X1C: {
+		id: 'X1C',
+		name: 'Bambu Lab X1 Carbon',
+		serialPrefixes: ['00M'],
+		slicerModelIds: ['BL-P001'],
+		storageRoot: FILE_PATHS.SDCARD_PATH,
+		cameraProtocol: 'rtsp',
+		chamberHeating: false,
+		nozzleCount: 1,
+		maxAmsCount: 4,
+	},
+	X1: {
+		id: 'X1',
+		name: 'Bambu Lab X1',
+		serialPrefixes: ['00W'],
+		slicerModelIds: ['BL-P002'],
+		storageRoot: FILE_PATHS.SDCARD_PATH,
+		cameraProtocol: 'rtsp',
+		chamberHeating: false,
+		nozzleCount: 1,
+		maxAmsCount: 4,
+	},
+	X1E: {
+		id: 'X1E',
+		name: 'Bambu Lab X1E',
+		serialPrefixes: ['03W'],
+		slicerModelIds: ['C13'],
+		storageRoot: FILE_PATHS.SDCARD_PATH,
+		cameraProtocol: 'rtsp',
+		chamberHeating: true,
+		nozzleCount: 1,
+		maxAmsCount: 4,
+	},
+	P1P: {
+		id: 'P1P',
+		name: 'Bambu Lab P1P',
+		serialPrefixes: ['01S'],
+		slicerModelIds: ['C11'],
+		storageRoot: FILE_PATHS.SDCARD_PATH,
+		cameraProtocol: 'jpeg-tls',
+		chamberHeating: false,
+		nozzleCount: 1,
+		maxAmsCount: 4,
+	},
+	P1S: {
+		id: 'P1S',
+		name: 'Bambu Lab P1S',
+		serialPrefixes: ['01P'],
+		slicerModelIds: ['C12'],
+		storageRoot: FILE_PATHS.SDCARD_PATH,
+		cameraProtocol: 'jpeg-tls',
+		chamberHeating: false,
+		nozzleCount: 1,
+		maxAmsCount: 4,
+	},
+	A1: {
+		id: 'A1',
+		name: 'Bambu Lab A1',
+		serialPrefixes: ['039'],
+		slicerModelIds: ['N2S'],
+		storageRoot: FILE_PATHS.SDCARD_PATH,
+		cameraProtocol: 'jpeg-tls',
+		chamberHeating: false,
+		nozzleCount: 1,
+		maxAmsCount: 1, // AMS lite
+	},
+	A1_MINI: {
+		id: 'A1_MINI',
+		name: 'Bambu Lab A1 mini',
+		serialPrefixes: ['030'],
+		slicerModelIds: ['N1'],
+		storageRoot: FILE_PATHS.SDCARD_PATH,
+		cameraProtocol: 'jpeg-tls',
+		chamberHeating: false,
+		nozzleCount: 1,
+		maxAmsCount: 1, // AMS lite
+	},
+	H2D: {
+		id: 'H2D',
+		name: 'Bambu Lab H2D',
+		serialPrefixes: ['094'],
+		slicerModelIds: ['O1D'],
+		storageRoot: FILE_PATHS.SDCARD_PATH,
+		cameraProtocol: 'rtsp',
+		chamberHeating: true,
+		nozzleCount: 2,
+		maxAmsCount: 4,
+	},
+	// Fallback for unrecognized printers: allows the largest supported AMS setup
+	UNKNOWN: {
+		id: 'UNKNOWN',
+		name: 'Unknown printer',
+		serialPrefixes: [],
+		slicerModelIds: [],
+		storageRoot: FILE_PATHS.SDCARD_PATH,
+		cameraProtocol: 'unknown',
+		chamberHeating: false,
+		nozzleCount: 1,
+		maxAmsCount: 4,
+	},
+};
+
+/**
+ * Printer Model Registry
+ * Detects the printer model from its serial number or "get_version" reply and
+ * exposes the model's capabilities
+ *
+ * @example
+ * const model = PrinterModels.detect('03919A3B0100123');
+ * console.log(model.name); // "Bambu Lab A1"
+ * console.log(PrinterModels.getMaxTraySlots(model)); // 4
+ */
+export class PrinterModels {
+	/** Model used when the printer could not be identified */
+	static readonly UNKNOWN: PrinterModel = MODELS.UNKNOWN;
+
+	/**
+	 * Get a model by id
+	 */
+	static get(id: PrinterModelId): PrinterModel {
+		return MODELS[id];
+	}
+
+	/**
+	 * Get all known models (without the unknown fallback)
+	 */
+	static getAll(): PrinterModel[] {
+		return Object.values(MODELS).filter((model) => model.id !== 'UNKNOWN');
+	}
+
+	/**
+	 * Detect the model from the serial number prefix
+	 *
+	 * @returns Matching model, or null if the prefix is not known
+	 */
+	static fromSerialNumber(serialNumber: string | undefined): PrinterModel | null {
+		const prefix = (serialNumber ?? '').trim().toUpperCase().slice(0, 3);
+		if (prefix.length < 3) {
+			return null;
+		}
+
+		return this.getAll().find((model) => model.serialPrefixes.includes(prefix)) ?? null;
+	}
+
+	/**
+	 * Detect the model from a product name, e.g. "Bambu Lab A1 mini" or "P1S"
+	 *
+	 * @returns Matching model, or null if the name is not known
+	 */
+	static fromProductName(productName: string | undefined): PrinterModel | null {
+		const normalized = this.normalizeProductName(productName ?? '');
+		if (!normalized) {
+			return null;
+		}
+
+		return (
+			this.getAll().find(
+				(model) =>
+					this.normalizeProductName(model.name) === normalized ||
+					this.normalizeProductName(model.id) === normalized,
+			) ?? null
+		);
+	}
+
+	/**
+	 * Detect the model from the printer model id Bambu Studio writes to sliced
+	 * files (printer_model_id in slice_info.config, e.g. "C12" for the P1S)
+	 *
+	 * @returns Matching model, or null if the id is not known
+	 */
+	static fromSlicerModelId(slicerModelId: string | undefined): PrinterModel | null {
+		const id = (slicerModelId ?? '').trim().toUpperCase();
+		if (!id) {
+			return null;
+		}
+
+		return this.getAll().find((model) => model.slicerModelIds.includes(id)) ?? null;
+	}
+
+	/**
+	 * Detect the model from the "get_version" reply
+	 * Uses the reported product name, or the serial number of the main modules
+	 *
+	 * @returns Matching model, or null if the reply does not identify a known model
+	 */
+	static fromVersionInfo(info: InfoReport | undefined): PrinterModel | null {
+		const modules = info?.module ?? [];
+
+		for (const module of modules) {
+			const model = this.fromProductName(module.product_name);
+			if (model) {
+				return model;
+			}
+		}
+
+		// AMS modules report their own serial numbers - only use the printer modules
+		for (const module of modules.filter((m) => m.name === 'ota' || m.name === 'mc')) {
+			const model = this.fromSerialNumber(module.sn);
+			if (model) {
+				return model;
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Detect the model, falling back to the unknown model
+	 *
+	 * @param serialNumber Printer serial number (from the credentials)
+	 * @param info Optional "get_version" reply, used when the serial prefix is not known
+	 */
+	static detect(serialNumber: string | undefined, info?: InfoReport): PrinterModel {
+		return this.fromSerialNumber(serialNumber) ?? this.fromVersionInfo(info) ?? this.UNKNOWN;
+	}
+
+	/**
+	 * Maximum number of filament tray slots (AMS units x trays per AMS)
+	 */
+	static getMaxTraySlots(model: PrinterModel): number {
+		return model.maxAmsCount * PRINTER_DEFAULTS.TRAYS_PER_AMS;
+	}
+
+	/**
+	 * Normalize a product name for comparison ("Bambu Lab X1 Carbon" -> "x1carbon")
+	 */
+	private static normalizeProductName(name: string): string {
+		return name
+			.toLowerCase()
+			.replace(/^bambu\s*lab\s*/, '')
+			.replace(/[\s_-]/g, '');
+	}
+}
@@ -0,0 +1,195 @@
+import type { PrinterReport } from './types';
+
+type PlainObject = Record<string, unknown>;
+
+/**
+ * Incremental store for printer state reported over MQTT
+ *
+ * After a "pushall" the printer only publishes the fields that changed.
+ * The store deep-merges every report into one snapshot so that consumers
+ * always see the complete current state instead of a single fragment.
+ *
+ * Merge rules:
+ * - Objects are merged recursively
+ * - Arrays of objects that carry an "id" (AMS units, AMS trays) are merged
+ *   element by element, keyed by id
+ * - A keyed element that only contains its id (e.g. an emptied AMS tray)
+ *   replaces the stored element instead of being merged into it
+ * - All other values, including other arrays, replace the stored value
+ *
+ * @example
+ * const store = new PrinterStateStore();
+ * store.update({ print: { gcode_state: 'RUNNING', mc_percent: 10 } });
+ * store.update({ print: { mc_percent: 11 } });
+ * store.getSnapshot().print?.gcode_state; // 'RUNNING'
+ * store.getLastUpdated('print.mc_percent'); // Date of second update
+ */
+export class PrinterStateStore {
+	private state: PlainObject = {};
+
+	private timestamps = new Map<string, Date>();
+
+	private lastUpdate: Date | null = null;
+
+	/**
+	 * Merge a report into the current snapshot
+	 *
+	 * @param report Raw report received on device/<serial>/report
+	 * @param receivedAt Time the report was received (default: now)
+	 */
+	update(report: PrinterReport, receivedAt = new Date()): void {
+		if (!PrinterStateStore.isPlainObject(report)) {
+			return;
+		}
+
+		this.state = this.mergeObject(this.state, report, '', receivedAt);
+		this.lastUpdate = receivedAt;
+	}
+
+	/**
+	 * Get a deep copy of the merged snapshot
+	 */
+	getSnapshot(): PrinterReport {
+		return structuredClone(this.state) as PrinterReport;
+	}
+
+	/**
+	 * Get the time a field was last reported
+	 *
+	 * @param path Dot-separated path, e.g. "print.gcode_state" or "print.ams.ams.0.tray.1.remain"
+	 *   (array elements keyed by id use the id, not the array index)
+	 * @returns Date of the last update, or undefined if the field was never reported
+	 */
+	getLastUpdated(path: string): Date | undefined {
+		return this.timestamps.get(path);
+	}
+
+	/**
+	 * Get last-updated timestamps for all reported fields (keyed by dot-separated path)
+	 */
+	getFieldTimestamps(): Record<string, Date> {
+		return Object.fromEntries(this.timestamps);
+	}
+
+	/**
+	 * Get the time of the last merged report (null if nothing was received yet)
+	 */
+	getLastUpdate(): Date | null {
+		return this.lastUpdate;
+	}
+
+	/**
+	 * Whether any report containing the print section has been merged
+	 * This can be a partial report; full (pushall) reports are not tracked here
+	 */
+	hasState(): boolean {
+		return PrinterStateStore.isPlainObject(this.state.print);
+	}
+
+	/**
+	 * Discard all stored state
+	 */
+	clear(): void {
+		this.state = {};
+		this.timestamps.clear();
+		this.lastUpdate = null;
+	}
+
+	/**
+	 * Recursively merge source into target, recording timestamps for every leaf
+	 */
+	private mergeObject(
+		target: PlainObject,
+		source: PlainObject,
+		path: string,
+		at: Date,
+	): PlainObject {
+		const result: PlainObject = { ...target };
+
+		for (const [key, value] of Object.entries(source)) {
+			const fieldPath = path ? `${path}.${key}` : key;
+			result[key] = this.mergeValue(result[key], value, fieldPath, at);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Merge a single value according to the store's merge rules
+	 */
+	private mergeValue(existing: unknown, value: unknown, path: string, at: Date): unknown {
+		if (PrinterStateStore.isPlainObject(value)) {
+			const base = PrinterStateStore.isPlainObject(existing) ? existing : {};
+			return this.mergeObject(base, value, path, at);
+		}
+
+		if (Array.isArray(value) && PrinterStateStore.isKeyedArray(value)) {
+			const base =
+				Array.isArray(existing) && PrinterStateStore.isKeyedArray(existing) ? existing : [];
+			return this.mergeKeyedArray(base, value, path, at);
+		}
+
+		this.touch(path, at);
+		return value;
+	}
+
+	/**
+	 * Merge arrays of objects by their "id" field
+	 * Elements not present in the incoming array are kept (deltas may omit them)
+	 */
+	private mergeKeyedArray(
+		existing: PlainObject[],
+		incoming: PlainObject[],
+		path: string,
+		at: Date,
+	): PlainObject[] {
+		const result = [...existing];
+
+		for (const item of incoming) {
+			const id = String(item.id);
+			const itemPath = `${path}.${id}`;
+			const index = result.findIndex((e) => String(e.id) === id);
+			const idOnly = Object.keys(item).length === 1;
+
+			if (index === -1 || idOnly) {
+				this.clearTimestamps(itemPath);
+				const merged = this.mergeObject({}, item, itemPath, at);
+				if (index === -1) {
+					result.push(merged);
+				} else {
+					result[index] = merged;
+				}
+			} else {
+				result[index] = this.mergeObject(result[index], item, itemPath, at);
+			}
+		}
+
+		return result;
+	}
+
+	private touch(path: string, at: Date): void {
+		this.timestamps.set(path, at);
+	}
+
+	/**
+	 * Remove timestamps of a replaced subtree
+	 */
+	private clearTimestamps(path: string): void {
+		for (const key of [...this.timestamps.keys()]) {
+			if (key === path || key.startsWith(`${path}.`)) {
+				this.timestamps.delete(key);
+			}
+		}
+	}
+
+	private static isPlainObject(value: unknown): value is PlainObject {
+		return typeof value === 'object' && value !== null && !Array.isArray(value);
+	}
+
+	private static isKeyedArray(value: unknown[]): value is PlainObject[] {
+		return (
+			value.length > 0 &&
+			value.every((item) => PrinterStateStore.isPlainObject(item) && item.id !== undefined)
+		);
+	}
+}
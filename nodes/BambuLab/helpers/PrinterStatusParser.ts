@@ -0,0 +1,309 @@
+import type {
+	AMSModel,
+	AMSStatus,
+	AMSSystemStatus,
+	AMSTray,
+	AMSTrayOverview,
+	AMSTrayStatus,
+	AMSUnit,
+	AMSUnitStatus,
+	GcodeState,
+	HMSEntry,
+	HMSError,
+	PrinterReport,
+	PrinterStatus,
+	VTTray,
+} from './types';
+import { AMS_MODELS, PRINTER_DEFAULTS } from './constants';
+
+const GCODE_STATES: GcodeState[] = [
+	'IDLE',
+	'PREPARE',
+	'RUNNING',
+	'PAUSE',
+	'FINISH',
+	'FAILED',
+	'SLICING',
+];
+
+/** tray_now/tray_tar value meaning "no tray" */
+const NO_TRAY = 255;
+
+/** Fan speeds are reported on a 0-15 scale */
+const FAN_SCALE = 15;
+
+/** tag_uid of trays without an RFID tag */
+const NO_TAG_UID = /^0*$/;
+
+/**
+ * Parser that turns raw MQTT reports into the normalized PrinterStatus model
+ *
+ * The printer nests all live fields under "print" and reports many numbers
+ * as strings ("humidity": "4", "tray_weight": "1000"). This parser is the
+ * single place that knows about the raw format; all status operations and
+ * helpers consume its output.
+ *
+ * @example
+ * const report = mqttClient.getStateStore().getSnapshot();
+ * const status = PrinterStatusParser.parse(report);
+ * status.progress.percent; // 42
+ * status.ams?.units[0].trays[0].remainPercent; // 80
+ */
+export class PrinterStatusParser {
+	/**
+	 * Parse a raw (ideally merged) report into a normalized status
+	 *
+	 * @param report Raw report or merged snapshot from PrinterStateStore
+	 * @returns Normalized printer status
+	 */
+	static parse(report: PrinterReport): PrinterStatus {
+		const print = report.print ?? {};
+
+		return {
+			state: this.parseState(print.gcode_state),
+			progress: {
+				percent: this.toNumber(print.mc_percent) ?? 0,
+				layer: this.toNumber(print.layer_num) ?? 0,
+				totalLayers: this.toNumber(print.total_layer_num) ?? 0,
+				remainingMinutes: this.toNumber(print.mc_remaining_time) ?? 0,
+				fileName: print.gcode_file ?? '',
+				taskName: print.subtask_name ?? '',
+				stage: this.toNumber(print.mc_print_stage),
+			},
+			temperatures: {
+				nozzle: {
+					current: this.toNumber(print.nozzle_temper) ?? 0,
+					target: this.toNumber(print.nozzle_target_temper) ?? 0,
+				},
+				bed: {
+					current: this.toNumber(print.bed_temper) ?? 0,
+					target: this.toNumber(print.bed_target_temper) ?? 0,
+				},
+				chamber: this.toNumber(print.chamber_temper),
+			},
+			speed: {
+				level: this.toNumber(print.spd_lvl),
+				percent: this.toNumber(print.spd_mag),
+			},
+			fans: {
+				partCooling: this.parseFanSpeed(print.cooling_fan_speed),
+				auxiliary: this.parseFanSpeed(print.big_fan1_speed),
+				chamber: this.parseFanSpeed(print.big_fan2_speed),
+			},
+			nozzle: {
+				diameter: this.toNumber(print.nozzle_diameter),
+				type: print.nozzle_type || null,
+			},
+			printError: this.toNumber(print.print_error) ?? 0,
+			wifiSignalDbm: this.toNumber(print.wifi_signal?.replace(/dBm$/i, '')),
+			hms: (print.hms ?? []).map((entry) => this.parseHms(entry)),
+			ams: this.parseAms(print.ams),
+			externalSpool: print.vt_tray ? this.parseTray(print.vt_tray, null) : null,
+			lights: print.lights_report ?? [],
+		};
+	}
+
+	/**
+	 * Format an HMS entry as the code shown in Bambu Studio and the wiki
+	 *
+	 * @example
+	 * PrinterStatusParser.formatHmsCode({ attr: 0x03000100, code: 0x00010007 });
+	 * // '0300_0100_0001_0007'
+	 */
+	static formatHmsCode(entry: HMSError): string {
+		const hex = (value: number | undefined) =>
+			((value ?? 0) >>> 0).toString(16).toUpperCase().padStart(8, '0');
+		const full = hex(entry.attr) + hex(entry.code);
+		return (full.match(/.{4}/g) ?? []).join('_');
+	}
+
+	/**
+	 * Normalize a color to "#RRGGBB"
+	 * Accepts "RRGGBBAA" (AMS), "#RRGGBB" (slicer), with or without "#"
+	 */
+	static normalizeColor(color: string | undefined): string {
+		const hex = (color ?? '').trim().replace(/^#/, '').toUpperCase();
+		if (!/^[0-9A-F]{6}([0-9A-F]{2})?$/.test(hex)) {
+			return '';
+		}
+		return `#${hex.substring(0, 6)}`;
+	}
+
+	/**
+	 * Parse a value that may be reported as number or numeric string
+	 * @returns The number, or null for missing/non-numeric values
+	 */
+	static toNumber(value: unknown): number | null {
+		if (typeof value === 'number') {
+			return Number.isFinite(value) ? value : null;
+		}
+		if (typeof value === 'string' && value.trim() !== '') {
+			const num = Number(value);
+			return Number.isFinite(num) ? num : null;
+		}
+		return null;
+	}
+
+	/**
+	 * List all AMS trays and the external spool, one entry per tray
+	 *
+	 * @param status Normalized printer status
+	 * @returns Trays ordered by AMS unit and slot, the external spool last
+	 */
+	static listTrays(status: PrinterStatus): AMSTrayOverview[] {
+		const activeTray = status.ams?.activeTray ?? null;
+		const toOverview = (tray: AMSTrayStatus, unit: AMSUnitStatus | null): AMSTrayOverview => ({
+			amsId: tray.amsId,
+			slot: tray.amsId === null ? null : tray.id + 1,
+			trayId: tray.globalId,
+			active: tray.globalId === activeTray,
+			empty: tray.empty,
+			present: tray.present,
+			type: tray.type,
+			subBrand: tray.subBrand,
+			color: tray.color,
+			remainPercent: tray.remainPercent,
+			weightGrams: tray.weightGrams,
+			nozzleTempMin: tray.nozzleTempMin,
+			nozzleTempMax: tray.nozzleTempMax,
+			presetId: tray.presetId,
+			rfid: tray.rfid,
+			bambuFilament: tray.bambuFilament,
+			humidityLevel: unit?.humidityLevel ?? null,
+			humidityPercent: unit?.humidityPercent ?? null,
+			temperature: unit?.temperature ?? null,
+			drying: unit?.drying ?? false,
+			dryingRemainingMinutes: unit ? unit.dryTimeMinutes : null,
+		});
+
+		const trays = (status.ams?.units ?? []).flatMap((unit) =>
+			unit.trays.map((tray) => toOverview(tray, unit)),
+		);
+
+		if (status.externalSpool) {
+			trays.push(toOverview(status.externalSpool, null));
+		}
+
+		return trays;
+	}
+
+	/**
+	 * Compute the global tray ID used by ams_mapping and tray_now
+	 *
+	 * @example
+	 * PrinterStatusParser.getGlobalTrayId(1, 2); // 6 (second AMS, third tray)
+	 */
+	static getGlobalTrayId(amsId: number, trayId: number): number {
+		return amsId * PRINTER_DEFAULTS.TRAYS_PER_AMS + trayId;
+	}
+
+	private static parseState(state: string | undefined): GcodeState {
+		const upper = (state ?? '').toUpperCase() as GcodeState;
+		return GCODE_STATES.includes(upper) ? upper : 'UNKNOWN';
+	}
+
+	private static parseFanSpeed(value: string | undefined): number | null {
+		const speed = this.toNumber(value);
+		return speed === null ? null : Math.round((speed / FAN_SCALE) * 100);
+	}
+
+	private static parseHms(entry: HMSError): HMSEntry {
+		return {
+			attr: entry.attr ?? 0,
+			code: entry.code ?? 0,
+			hmsCode: this.formatHmsCode(entry),
+		};
+	}
+
+	private static parseTrayIndex(value: string | undefined): number | null {
+		const tray = this.toNumber(value);
+		return tray === null || tray === NO_TRAY ? null : tray;
+	}
+
+	private static parseAms(ams: AMSStatus | undefined): AMSSystemStatus | null {
+		if (!ams || !Array.isArray(ams.ams) || ams.ams.length === 0) {
+			return null;
+		}
+
+		// Bit N of these hex bitmasks belongs to global tray N
+		const existBits = this.parseBits(ams.tray_exist_bits);
+		const bblBits = this.parseBits(ams.tray_is_bbl_bits);
+
+		return {
+			units: ams.ams.map((unit: AMSUnit) => {
+				const unitId = this.toNumber(unit.id) ?? 0;
+				const dryTimeMinutes = this.toNumber(unit.dry_time) ?? 0;
+				return {
+					id: unitId,
+					model: this.parseAmsModel(unitId, unit.info),
+					humidityLevel: this.toNumber(unit.humidity),
+					humidityPercent: this.toNumber(unit.humidity_raw),
+					temperature: this.toNumber(unit.temp),
+					dryTimeMinutes,
+					drying: dryTimeMinutes > 0,
+					trays: (unit.tray ?? []).map((tray) => {
+						const parsed = this.parseTray(tray, unitId);
+						return {
+							...parsed,
+							present: this.getBit(existBits, parsed.globalId),
+							bambuFilament: this.getBit(bblBits, parsed.globalId),
+						};
+					}),
+				};
+			}),
+			activeTray: this.parseTrayIndex(ams.tray_now),
+			previousTray: this.parseTrayIndex(ams.tray_pre),
+			targetTray: this.parseTrayIndex(ams.tray_tar),
+		};
+	}
+
+	/**
+	 * Detect the AMS model of a unit
+	 * AMS HT units report ids from 128, other models are identified by the info field
+	 */
+	private static parseAmsModel(unitId: number, info: string | undefined): AMSModel {
+		if (unitId >= AMS_MODELS.HT_MIN_ID) {
+			return 'AMS_HT';
+		}
+		const value = info && /^[0-9a-f]+$/i.test(info) ? parseInt(info, 16) : NaN;
+		return (Number.isNaN(value) ? undefined : AMS_MODELS.INFO_TYPES[value & 0xf]) ?? 'UNKNOWN';
+	}
+
+	private static parseTray(tray: AMSTray | VTTray, amsId: number | null): AMSTrayStatus {
+		const remain = this.toNumber(tray.remain);
+		const weight = this.toNumber(tray.tray_weight);
+		const id =
+			this.toNumber(tray.id) ?? (amsId === null ? PRINTER_DEFAULTS.EXTERNAL_SPOOL_TRAY_ID : 0);
+
+		return {
+			id,
+			amsId,
+			globalId: amsId === null ? id : this.getGlobalTrayId(amsId, id),
+			empty: !tray.tray_type,
+			type: tray.tray_type ?? '',
+			subBrand: tray.tray_sub_brands ?? '',
+			color: this.normalizeColor(tray.tray_color),
+			remainPercent: remain === null || remain < 0 ? null : remain,
+			weightGrams: weight === null || weight <= 0 ? null : weight,
+			diameter: this.toNumber(tray.tray_diameter),
+			nozzleTempMin: this.toNumber(tray.nozzle_temp_min),
+			nozzleTempMax: this.toNumber(tray.nozzle_temp_max),
+			presetId: tray.tray_info_idx ?? '',
+			tagUid: tray.tag_uid ?? '',
+			rfid: !NO_TAG_UID.test(tray.tag_uid ?? ''),
+			present: null,
+			bambuFilament: null,
+		};
+	}
+
+	/**
+	 * Parse a hex bitmask such as tray_exist_bits ("f" = trays 0-3)
+	 */
+	private static parseBits(value: string | undefined): number | null {
+		return value && /^[0-9a-fA-F]{1,8}$/.test(value) ? parseInt(value, 16) : null;
+	}
+
+	private static getBit(bits: number | null, index: number): boolean | null {
+		return bits === null ? null : ((bits >>> index) & 1) === 1;
+	}
+}
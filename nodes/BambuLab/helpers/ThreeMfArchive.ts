@@ -0,0 +1,185 @@
+import AdmZip from 'adm-zip';
+import { FILE_PATHS } from './constants';
+
+/**
+ * Plate selection for multi-plate projects
+ * A plate number (1-indexed) or 'first' for the first plate that contains sliced G-code
+ */
+export type PlateSelection = number | 'first';
+
+/**
+ * Plate thumbnail size
+ * 'large' is the plate preview shown in Bambu Studio, 'small' the preview shown on the printer
+ */
+export type ThumbnailSize = 'large' | 'small';
+
+/**
+ * Read access to a Bambu Studio .3mf project archive
+ *
+ * .3mf files are ZIP archives. Sliced projects contain one
+ * Metadata/plate_N.gcode entry per sliced plate, next to the model and
+ * the slicer configuration files.
+ *
+ * @example
+ * const archive = ThreeMfArchive.fromBuffer(fileBuffer);
+ * archive.getSlicedPlates(); // [1, 3]
+ * const plate = archive.resolvePlate('first'); // 1
+ * const gcode = archive.getPlateGcode(plate);
+ */
+export class ThreeMfArchive {
+	private zip: AdmZip;
+
+	private constructor(zip: AdmZip) {
+		this.zip = zip;
+	}
+
+	/**
+	 * Open a .3mf archive from a buffer
+	 *
+	 * @param buffer Buffer containing .3mf file data
+	 * @throws Error if the buffer is not a valid ZIP archive
+	 */
+	static fromBuffer(buffer: Buffer): ThreeMfArchive {
+		try {
+			return new ThreeMfArchive(new AdmZip(buffer));
+		} catch (error) {
+			throw new Error(
+				`Failed to read .3mf file: Not a valid ZIP archive. ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+			);
+		}
+	}
+
+	/**
+	 * Get the numbers of all plates that contain sliced G-code (ascending)
+	 */
+	getSlicedPlates(): number[] {
+		return this.zip
+			.getEntries()
+			.map((entry) => entry.entryName.match(/^Metadata\/plate_(\d+)\.gcode$/))
+			.filter((match): match is RegExpMatchArray => match !== null)
+			.map((match) => parseInt(match[1], 10))
+			.sort((a, b) => a - b);
+	}
+
+	/**
+	 * Whether a plate contains sliced G-code
+	 */
+	hasSlicedPlate(plate: number): boolean {
+		return this.zip.getEntry(FILE_PATHS.PLATE_GCODE_PATH(plate)) !== null;
+	}
+
+	/**
+	 * Resolve a plate selection to a plate number and validate that it is sliced
+	 *
+	 * @param selection Plate number (1-indexed) or 'first'
+	 * @returns Plate number that contains sliced G-code
+	 * @throws Error if the archive has no sliced plates or the selected plate is not sliced
+	 */
+	resolvePlate(selection: PlateSelection): number {
+		const slicedPlates = this.getSlicedPlates();
+
+		if (slicedPlates.length === 0) {
+			throw new Error(
+				'No sliced plates found in .3mf file. Export the project from Bambu Studio with "Export plate sliced file" or "Export all sliced file".',
+			);
+		}
+
+		if (selection === 'first') {
+			return slicedPlates[0];
+		}
+
+		if (!Number.isInteger(selection) || selection < 1) {
+			throw new Error(`Invalid plate number: ${selection}. Plate numbers start at 1.`);
+		}
+
+		if (!this.hasSlicedPlate(selection)) {
+			throw new Error(
+				`Plate ${selection} does not contain sliced G-code (${FILE_PATHS.PLATE_GCODE_PATH(selection)} not found). ` +
+					`Sliced plates in this file: ${slicedPlates.join(', ')}`,
+			);
+		}
+
+		return selection;
+	}
+
+	/**
+	 * Get the G-code of a sliced plate
+	 *
+	 * @param plate Plate number (1-indexed)
+	 * @returns G-code as UTF-8 text, or null if the plate is not sliced
+	 */
+	getPlateGcode(plate: number): string | null {
+		return this.readText(FILE_PATHS.PLATE_GCODE_PATH(plate));
+	}
+
+	/**
+	 * Get the PNG thumbnail of a plate
+	 *
+	 * @param plate Plate number (1-indexed)
+	 * @param size Thumbnail size (default: 'large')
+	 * @returns PNG image data, or null if the file has no thumbnail for the plate
+	 */
+	getPlateThumbnail(plate: number, size: ThumbnailSize = 'large'): Buffer | null {
+		return this.readBuffer(
+			size === 'small'
+				? FILE_PATHS.PLATE_SMALL_THUMBNAIL_PATH(plate)
+				: FILE_PATHS.PLATE_THUMBNAIL_PATH(plate),
+		);
+	}
+
+	/**
+	 * Get the numbers of all plates that have a thumbnail (ascending)
+	 */
+	getThumbnailPlates(): number[] {
+		return this.zip
+			.getEntries()
+			.map((entry) => entry.entryName.match(/^Metadata\/plate_(\d+)\.png$/))
+			.filter((match): match is RegExpMatchArray => match !== null)
+			.map((match) => parseInt(match[1], 10))
+			.sort((a, b) => a - b);
+	}
+
+	/**
+	 * Get the slicer project settings (Metadata/project_settings.config)
+	 *
+	 * @returns Settings object, or null if the entry is missing or not valid JSON
+	 */
+	getProjectSettings(): Record<string, unknown> | null {
+		const content = this.readText(FILE_PATHS.PROJECT_SETTINGS_PATH);
+		if (content === null) {
+			return null;
+		}
+
+		try {
+			const settings: unknown = JSON.parse(content);
+			return settings !== null && typeof settings === 'object' && !Array.isArray(settings)
+				? (settings as Record<string, unknown>)
+				: null;
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Read an archive entry as UTF-8 text
+	 *
+	 * @param entryName Path inside the archive, e.g. "Metadata/slice_info.config"
+	 * @returns Entry content, or null if the entry does not exist
+	 */
+	readText(entryName: string): string | null {
+		return this.readBuffer(entryName)?.toString('utf8') ?? null;
+	}
+
+	/**
+	 * Read an archive entry as binary data
+	 *
+	 * @param entryName Path inside the archive, e.g. "Metadata/plate_1.png"
+	 * @returns Entry content, or null if the entry does not exist
+	 */
+	readBuffer(entryName: string): Buffer | null {
+		const entry = this.zip.getEntry(entryName);
+		return entry ? entry.getData() : null;
+	}
+}
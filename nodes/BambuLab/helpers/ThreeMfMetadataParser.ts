@@ -0,0 +1,386 @@
+import type {
+	BedType,
+	ThreeMfPlateFilament,
+	ThreeMfPlateInfo,
+	ThreeMfPlateObject,
+	ThreeMfProjectInfo,
+} from './types';
+import { ThreeMfArchive } from './ThreeMfArchive';
+import { BED_TYPES, FILE_PATHS } from './constants';
+import { PrinterModels } from './PrinterModels';
+
+type XmlAttributes = Record<string, string>;
+
+interface XmlElement {
+	attributes: XmlAttributes;
+	content: string;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+	amp: '&',
+};
+
+/** Decode predefined and numeric XML entities */
+const decodeXml = (value: string): string =>
+	value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, name: string) => {
+		if (name.startsWith('#x')) {
+			return String.fromCodePoint(parseInt(name.substring(2), 16));
+		}
+		if (name.startsWith('#')) {
+			return String.fromCodePoint(parseInt(name.substring(1), 10));
+		}
+		return XML_ENTITIES[name] ?? entity;
+	});
+
+/** Parse the attributes of an XML start tag */
+const parseAttributes = (tag: string): XmlAttributes => {
+	const attributes: XmlAttributes = {};
+	for (const match of tag.matchAll(/([\w:.-]+)\s*=\s*"([^"]*)"/g)) {
+		attributes[match[1]] = decodeXml(match[2]);
+	}
+	return attributes;
+};
+
+/** Get the attributes of all (usually self-closing) elements with the given name */
+const findTags = (xml: string, name: string): XmlAttributes[] =>
+	[...xml.matchAll(new RegExp(`<${name}(\\s[^>]*)?>`, 'g'))].map((match) =>
+		parseAttributes(match[1] ?? ''),
+	);
+
+/** Get all elements with the given name that have content (elements of the same name must not nest) */
+const findElements = (xml: string, name: string): XmlElement[] =>
+	[...xml.matchAll(new RegExp(`<${name}(\\s[^>]*?)?(?<!/)>([\\s\\S]*?)</${name}>`, 'g'))].map(
+		(match) => ({ attributes: parseAttributes(match[1] ?? ''), content: match[2] }),
+	);
+
+/** Remove all elements with the given name */
+const removeElements = (xml: string, name: string): string =>
+	xml.replace(new RegExp(`<${name}(\\s[^>]*?)?(?<!/)>[\\s\\S]*?</${name}>`, 'g'), '');
+
+/** Get the key/value pairs of <metadata key="..." value="..."/> elements */
+const getMetadata = (xml: string): Record<string, string> => {
+	const metadata: Record<string, string> = {};
+	for (const tag of findTags(xml, 'metadata')) {
+		if (tag.key !== undefined) {
+			metadata[tag.key] = tag.value ?? '';
+		}
+	}
+	return metadata;
+};
+
+const toNumber = (value: unknown): number | null => {
+	const num = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+	return Number.isFinite(num) ? num : null;
+};
+
+const toText = (value: string | undefined): string | null =>
+	value !== undefined && value.trim() !== '' ? value.trim() : null;
+
+/**
+ * Slicing results of one plate from slice_info.config
+ */
+interface SliceInfoPlate {
+	estimatedTimeSeconds: number | null;
+	weightGrams: number | null;
+	nozzleDiameter: number | null;
+	slicerModelId: string | null;
+	filaments: ThreeMfPlateFilament[];
+	objects: ThreeMfPlateObject[];
+}
+
+/**
+ * Settings of one plate from model_settings.config
+ */
+interface ModelSettingsPlate {
+	name: string | null;
+	bedType: string | null;
+	objects: ThreeMfPlateObject[];
+}
+
+/**
+ * Parser for project metadata of Bambu Studio .3mf files
+ *
+ * Reads the slicer configuration files next to the sliced G-code:
+ * - Metadata/slice_info.config (XML): per-plate print time, weight, filaments and objects
+ * - Metadata/model_settings.config (XML): objects, plate names and plate bed types
+ * - Metadata/project_settings.config (JSON): printer, nozzle, bed type and layer height
+ *
+ * All files are optional; missing values are returned as null.
+ *
+ * @example
+ * const info = ThreeMfMetadataParser.parseFromBuffer(fileBuffer);
+ * console.log(info.printerModel); // "Bambu Lab P1S"
+ * console.log(info.plates[0].estimatedTimeSeconds); // 4180
+ */
+export class ThreeMfMetadataParser {
+	/**
+	 * Parse project metadata from a .3mf file buffer
+	 *
+	 * @param buffer Buffer containing .3mf file data
+	 * @returns Project and per-plate metadata
+	 * @throws Error if the buffer is not a valid ZIP archive
+	 */
+	static parseFromBuffer(buffer: Buffer): ThreeMfProjectInfo {
+		return this.parseFromArchive(ThreeMfArchive.fromBuffer(buffer));
+	}
+
+	/**
+	 * Parse project metadata from an opened .3mf archive
+	 *
+	 * @param archive Opened .3mf archive
+	 * @returns Project and per-plate metadata, plates sorted by number
+	 */
+	static parseFromArchive(archive: ThreeMfArchive): ThreeMfProjectInfo {
+		const settings = archive.getProjectSettings() ?? {};
+		const sliceInfo = archive.readText(FILE_PATHS.SLICE_INFO_PATH) ?? '';
+		const modelSettings = archive.readText(FILE_PATHS.MODEL_SETTINGS_PATH) ?? '';
+
+		const slicedPlates = archive.getSlicedPlates();
+		const thumbnailPlates = archive.getThumbnailPlates();
+		const slicePlates = this.parseSliceInfoPlates(sliceInfo);
+		const modelPlates = this.parseModelSettingsPlates(modelSettings);
+
+		const plateNumbers = [
+			...new Set([...slicedPlates, ...slicePlates.keys(), ...modelPlates.keys()]),
+		].sort((a, b) => a - b);
+
+		const plates: ThreeMfPlateInfo[] = plateNumbers.map((plate) => {
+			const slicePlate = slicePlates.get(plate);
+			const modelPlate = modelPlates.get(plate);
+
+			return {
+				plate,
+				name: modelPlate?.name ?? null,
+				sliced: slicedPlates.includes(plate),
+				hasThumbnail: thumbnailPlates.includes(plate),
+				estimatedTimeSeconds: slicePlate?.estimatedTimeSeconds ?? null,
+				weightGrams: slicePlate?.weightGrams ?? null,
+				nozzleDiameter: slicePlate?.nozzleDiameter ?? null,
+				bedType: modelPlate?.bedType ?? null,
+				slicerModelId: slicePlate?.slicerModelId ?? null,
+				filaments: slicePlate?.filaments ?? [],
+				// slice_info only lists objects of sliced plates
+				objects: slicePlate?.objects.length ? slicePlate.objects : (modelPlate?.objects ?? []),
+			};
+		});
+
+		const printerModel = this.getSetting(settings, 'printer_model');
+		const detectedModel =
+			PrinterModels.fromProductName(printerModel ?? undefined) ??
+			PrinterModels.fromSlicerModelId(
+				plates.find((plate) => plate.slicerModelId !== null)?.slicerModelId ?? undefined,
+			);
+
+		const headerItems = findTags(sliceInfo, 'header_item');
+
+		return {
+			slicerVersion: toText(
+				headerItems.find((item) => item.key === 'X-BBL-Client-Version')?.value,
+			),
+			printerModel,
+			printerModelId: detectedModel?.id ?? null,
+			printerSettingsId: this.getSetting(settings, 'printer_settings_id'),
+			nozzleDiameter: toNumber(this.getSetting(settings, 'nozzle_diameter')),
+			bedType: this.getSetting(settings, 'curr_bed_type'),
+			layerHeight: toNumber(this.getSetting(settings, 'layer_height')),
+			plates,
+		};
+	}
+
+	/**
+	 * Get the bed type a plate was sliced for, as used in the print command
+	 * Uses the plate's own bed type, falling back to the project bed type
+	 *
+	 * @param project Project metadata
+	 * @param plate Plate number
+	 * @returns Bed type, or null if the file does not specify a known bed type
+	 */
+	static getBedType(project: ThreeMfProjectInfo, plate: number): BedType | null {
+		const plateInfo = project.plates.find((p) => p.plate === plate);
+		const bedType = plateInfo?.bedType ?? project.bedType;
+		if (!bedType) {
+			return null;
+		}
+
+		// Plates store the command value ("textured_plate"), project settings the name ("Textured PEI Plate")
+		const known = new Set(Object.values(BED_TYPES));
+		if (known.has(bedType as BedType)) {
+			return bedType as BedType;
+		}
+
+		return BED_TYPES[bedType.trim().toLowerCase()] ?? null;
+	}
+
+	/**
+	 * Select objects of a plate by name or identify_id, e.g. for skip_objects
+	 *
+	 * Names are compared case-insensitively and select all objects with that
+	 * name (copies share their name). Without plate metadata only numeric
+	 * identify_ids can be used.
+	 *
+	 * @param selection Comma-separated object names and/or identify_ids ("Cube, 120")
+	 * @param plate Plate metadata, or null if the file is not known
+	 * @returns Selected objects, each object once
+	 * @throws Error if the selection is empty or an object is not found
+	 */
+	static selectObjects(selection: string, plate: ThreeMfPlateInfo | null): ThreeMfPlateObject[] {
+		const entries = selection
+			.split(',')
+			.map((entry) => entry.trim())
+			.filter((entry) => entry !== '');
+
+		if (entries.length === 0) {
+			throw new Error('No objects selected. Enter object names or identify IDs, separated by commas.');
+		}
+
+		const objects = (plate?.objects ?? []).filter((object) => object.identifyId !== null);
+		const selected: ThreeMfPlateObject[] = [];
+
+		for (const entry of entries) {
+			const id = /^\d+$/.test(entry) ? parseInt(entry, 10) : null;
+
+			if (!plate) {
+				if (id === null) {
+					throw new Error(
+						`Object "${entry}" cannot be found by name without the file of the running print. Set the file name or use identify IDs.`,
+					);
+				}
+				selected.push({ identifyId: id, objectId: null, name: '' });
+				continue;
+			}
+
+			const matches = objects.filter((object) =>
+				id !== null
+					? object.identifyId === id
+					: object.name.toLowerCase() === entry.toLowerCase(),
+			);
+
+			if (matches.length === 0) {
+				const available = objects.map((object) => `${object.name} (${object.identifyId})`).join(', ');
+				throw new Error(
+					`Object not found on plate ${plate.plate}: "${entry}". Available: ${available || 'none'}`,
+				);
+			}
+
+			selected.push(...matches);
+		}
+
+		// Each object once, even if selected by name and id
+		return selected.filter(
+			(object, index) => selected.findIndex((o) => o.identifyId === object.identifyId) === index,
+		);
+	}
+
+	/**
+	 * Parse the per-plate slicing results from slice_info.config
+	 *
+	 * Format:
+	 * <plate>
+	 *   <metadata key="index" value="1"/>
+	 *   <metadata key="prediction" value="4180"/>
+	 *   <metadata key="weight" value="12.34"/>
+	 *   <object identify_id="96" name="Cube" skipped="false"/>
+	 *   <filament id="1" tray_info_idx="GFA00" type="PLA" color="#FFFFFF" used_m="0.83" used_g="2.47"/>
+	 * </plate>
+	 */
+	private static parseSliceInfoPlates(xml: string): Map<number, SliceInfoPlate> {
+		const plates = new Map<number, SliceInfoPlate>();
+
+		for (const element of findElements(xml, 'plate')) {
+			const metadata = getMetadata(element.content);
+			const plate = toNumber(metadata.index);
+			if (plate === null) {
+				continue;
+			}
+
+			plates.set(plate, {
+				estimatedTimeSeconds: toNumber(metadata.prediction),
+				weightGrams: toNumber(metadata.weight),
+				// "0.4" or "0.4,0.4" for multi-nozzle printers
+				nozzleDiameter: toNumber((metadata.nozzle_diameters ?? '').split(',')[0]),
+				slicerModelId: toText(metadata.printer_model_id),
+				filaments: findTags(element.content, 'filament').map((tag) => ({
+					slot: toNumber(tag.id) ?? 0,
+					type: tag.type ?? '',
+					color: tag.color ?? '',
+					presetId: tag.tray_info_idx ?? '',
+					usedMeters: toNumber(tag.used_m),
+					usedGrams: toNumber(tag.used_g),
+				})),
+				objects: findTags(element.content, 'object').map((tag) => ({
+					identifyId: toNumber(tag.identify_id),
+					objectId: null,
+					name: tag.name ?? '',
+				})),
+			});
+		}
+
+		return plates;
+	}
+
+	/**
+	 * Parse plates and their objects from model_settings.config
+	 *
+	 * Format:
+	 * <object id="2"><metadata key="name" value="Cube"/><part ...>...</part></object>
+	 * <plate>
+	 *   <metadata key="plater_id" value="1"/>
+	 *   <metadata key="plater_name" value="Brackets"/>
+	 *   <model_instance>
+	 *     <metadata key="object_id" value="2"/>
+	 *     <metadata key="identify_id" value="96"/>
+	 *   </model_instance>
+	 * </plate>
+	 */
+	private static parseModelSettingsPlates(xml: string): Map<number, ModelSettingsPlate> {
+		const plates = new Map<number, ModelSettingsPlate>();
+
+		// Object names; parts carry their own "name" metadata
+		const objectNames = new Map<number, string>();
+		for (const element of findElements(xml, 'object')) {
+			const objectId = toNumber(element.attributes.id);
+			if (objectId !== null) {
+				objectNames.set(objectId, getMetadata(removeElements(element.content, 'part')).name ?? '');
+			}
+		}
+
+		for (const element of findElements(xml, 'plate')) {
+			const metadata = getMetadata(removeElements(element.content, 'model_instance'));
+			const plate = toNumber(metadata.plater_id);
+			if (plate === null) {
+				continue;
+			}
+
+			const objects = findElements(element.content, 'model_instance').map((instance) => {
+				const instanceMetadata = getMetadata(instance.content);
+				const objectId = toNumber(instanceMetadata.object_id);
+				return {
+					identifyId: toNumber(instanceMetadata.identify_id),
+					objectId,
+					name: objectId !== null ? (objectNames.get(objectId) ?? '') : '',
+				};
+			});
+
+			plates.set(plate, {
+				name: toText(metadata.plater_name),
+				bedType: toText(metadata.bed_type),
+				objects,
+			});
+		}
+
+		return plates;
+	}
+
+	/**
+	 * Get a project setting as text
+	 * Per-extruder settings are arrays; the first value is returned
+	 */
+	private static getSetting(settings: Record<string, unknown>, key: string): string | null {
+		const value = Array.isArray(settings[key]) ? (settings[key] as unknown[])[0] : settings[key];
+		return typeof value === 'string' || typeof value === 'number' ? toText(String(value)) : null;
+	}
+}
@@ -0,0 +1,57 @@
+import { ColorDistance } from '../ColorDistance';
+
+describe('ColorDistance', () => {
+	describe('ciede2000', () => {
+		// Reference pairs from Sharma, Wu and Dalal (2005)
+		it('should match published reference values', () => {
+			expect(
+				ColorDistance.ciede2000({ l: 50, a: 2.6772, b: -79.7751 }, { l: 50, a: 0, b: -82.7485 }),
+			).toBeCloseTo(2.0425, 4);
+			expect(
+				ColorDistance.ciede2000({ l: 50, a: 2.5, b: 0 }, { l: 73, a: 25, b: -18 }),
+			).toBeCloseTo(27.1492, 4);
+		});
+
+		it('should return 0 for identical colors', () => {
+			const lab = { l: 42, a: 10, b: -20 };
+			expect(ColorDistance.ciede2000(lab, lab)).toBe(0);
+		});
+	});
+
+	describe('hexToLab', () => {
+		it('should convert white and black', () => {
+			const white = ColorDistance.hexToLab('#FFFFFF');
+			expect(white?.l).toBeCloseTo(100, 2);
+			expect(white?.a).toBeCloseTo(0, 2);
+			expect(white?.b).toBeCloseTo(0, 2);
+
+			expect(ColorDistance.hexToLab('000000')).toEqual({ l: 0, a: 0, b: 0 });
+		});
+
+		it('should ignore the alpha channel', () => {
+			expect(ColorDistance.hexToLab('FF0000FF')).toEqual(ColorDistance.hexToLab('#FF0000'));
+		});
+
+		it('should return null for invalid colors', () => {
+			expect(ColorDistance.hexToLab('')).toBeNull();
+			expect(ColorDistance.hexToLab('#FFF')).toBeNull();
+			expect(ColorDistance.hexToLab('GGGGGG')).toBeNull();
+		});
+	});
+
+	describe('between', () => {
+		it('should report a small distance for slightly different shades', () => {
+			expect(ColorDistance.between('#000000', '161616FF')).toBeCloseTo(4.3, 1);
+		});
+
+		it('should report a large distance for different colors', () => {
+			expect(ColorDistance.between('#000000', '#FFFFFF')).toBeGreaterThan(90);
+			expect(ColorDistance.between('#FF0000', '#0000FF')).toBeGreaterThan(50);
+		});
+
+		it('should return null if either color is invalid', () => {
+			expect(ColorDistance.between('#000000', 'black')).toBeNull();
+			expect(ColorDistance.between('', '#000000')).toBeNull();
+		});
+	});
+});
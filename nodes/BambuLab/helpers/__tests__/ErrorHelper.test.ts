@@ -37,6 +37,18 @@ describe('ErrorHelper', () => {
 			expect(error.message).toContain('/test/file.3mf');
 		});
 
+		it('should create wait timeout error', () => {
+			const error = ErrorHelper.waitTimeout(60000);
+
+			expect(error.message).toContain('Timed out after 60000ms');
+		});
+
+		it('should create print failed while waiting error', () => {
+			const error = ErrorHelper.printFailedWhileWaiting('FAILED');
+
+			expect(error.message).toContain('FAILED state while waiting');
+		});
+
 		it('should create AMS not detected error', () => {
 			const error = ErrorHelper.amsNotDetected();
 
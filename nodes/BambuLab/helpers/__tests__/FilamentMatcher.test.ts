@@ -1,4 +1,5 @@
 import { FilamentMatcher } from '../FilamentMatcher';
+import { PrinterStatusParser } from '../PrinterStatusParser';
 import type {
 	FilamentProfile,
 	PrinterStatus,
@@ -8,7 +9,16 @@ import type {
 
 describe('FilamentMatcher', () => {
 	// Helper to create mock AMS status (new structure with ams.ams[] array)
-	const createMockAMS = (trays: Array<{ id: string; type: string; color: string }>): AMSStatus => ({
+	const createMockAMS = (
+		trays: Array<{
+			id: string;
+			type: string;
+			color: string;
+			presetId?: string;
+			remain?: number;
+			weight?: string;
+		}>,
+	): AMSStatus => ({
 		ams: [
 			{
 				id: '0',
@@ -18,7 +28,9 @@ describe('FilamentMatcher', () => {
 					id: t.id,
 					tray_type: t.type,
 					tray_color: t.color,
-					remain: 100,
+					tray_info_idx: t.presetId,
+					remain: t.remain ?? 100,
+					tray_weight: t.weight,
 				})),
 			},
 		],
@@ -29,12 +41,13 @@ describe('FilamentMatcher', () => {
 
 	// Helper to create mock printer status
 	// AMS data is always nested under print.ams in real MQTT messages
-	const createMockStatus = (ams?: AMSStatus): PrinterStatus => ({
-		print: {
-			ams,
-		} as any,
-		gcode_state: 'IDLE',
-	});
+	const createMockStatus = (ams?: AMSStatus): PrinterStatus =>
+		PrinterStatusParser.parse({
+			print: {
+				ams,
+				gcode_state: 'IDLE',
+			},
+		});
 
 	// Helper to create mock filament profile
 	const createProfile = (index: number, type: string, colour: string): FilamentProfile => ({
@@ -42,6 +55,9 @@ describe('FilamentMatcher', () => {
 		type,
 		colour,
 		name: `${type} ${colour}`,
+		presetId: '',
+		usedGrams: null,
+		usedMm: null,
 		slotNumber: index + 1,
 		trayId: index,
 	});
@@ -188,6 +204,7 @@ describe('FilamentMatcher', () => {
 			expect(result.matches[0].matchedTrayId).toBe(0);
 			expect(result.matches[0].matchQuality).toBe('exact');
 			expect(result.amsDetected).toBe(false);
+			expect(result.traysDetected).toBe(false);
 			expect(result.totalSlots).toBe(1);
 		});
 
@@ -254,6 +271,30 @@ describe('FilamentMatcher', () => {
 			}).toThrow('Filament not found in AMS: Need PLA (#000000) for profile 0');
 		});
 
+		it('should report unmatched filaments instead of failing in warn mode', () => {
+			const profiles: FilamentProfile[] = [
+				createProfile(0, 'PETG', '#000000'),
+				createProfile(1, 'TPU', '#FF0000'),
+			];
+
+			const ams = createMockAMS([
+				{ id: '0', type: 'PETG', color: '#000000' },
+				{ id: '1', type: 'PLA', color: '#68724D' },
+			]);
+
+			const result = FilamentMatcher.matchProfilesToAMS(profiles, createMockStatus(ams), {
+				unmatchedMode: 'warn',
+			});
+
+			expect(result.mapping).toEqual([0, -1]);
+			expect(result.matches).toHaveLength(1);
+			expect(result.matches[0].index).toBe(0);
+			expect(result.warnings).toEqual([
+				'Filament not found in AMS: Need TPU (#FF0000) for profile 1. ' +
+					'Available: Slot 1: PETG (#000000), Slot 2: PLA (#68724D)',
+			]);
+		});
+
 		it('should handle empty AMS trays array', () => {
 			// Setup: AMS exists but no trays loaded
 			const profiles: FilamentProfile[] = [
@@ -284,6 +325,489 @@ describe('FilamentMatcher', () => {
 			expect(result.totalSlots).toBe(1);
 		});
 
+		it('should use global tray IDs for trays in additional AMS units', () => {
+			const profiles: FilamentProfile[] = [
+				createProfile(0, 'PLA', '#FFFFFF'),
+				createProfile(1, 'PETG', '#000000'),
+			];
+
+			const status = PrinterStatusParser.parse({
+				print: {
+					ams: {
+						ams: [
+							{ id: '0', tray: [{ id: '0', tray_type: 'PETG', tray_color: '515151FF' }] },
+							{
+								id: '1',
+								tray: [
+									{ id: '0', tray_type: 'PLA', tray_color: 'FFFFFFFF' },
+									{ id: '2', tray_type: 'PETG', tray_color: '000000FF' },
+								],
+							},
+						],
+					},
+				},
+			});
+
+			const result = FilamentMatcher.matchProfilesToAMS(profiles, status);
+
+			expect(result.mapping).toEqual([4, 6]);
+			expect(result.matches[0]).toMatchObject({ matchedSlot: 5, matchedAmsId: 1 });
+			expect(result.matches[1]).toMatchObject({ matchedSlot: 7, matchedTrayId: 6 });
+			expect(result.totalSlots).toBe(3);
+		});
+
+		it('should match the external spool', () => {
+			const profiles: FilamentProfile[] = [
+				createProfile(0, 'PLA', '#515151'),
+				createProfile(1, 'TPU', '#FF0000'),
+			];
+
+			const status = PrinterStatusParser.parse({
+				print: {
+					ams: createMockAMS([{ id: '0', type: 'PLA', color: '#515151' }]),
+					vt_tray: { id: '254', tray_type: 'TPU', tray_color: 'FF0000FF' },
+				},
+			});
+
+			const result = FilamentMatcher.matchProfilesToAMS(profiles, status);
+
+			expect(result.mapping).toEqual([0, 254]);
+			expect(result.matches[1]).toMatchObject({
+				matchedSlot: 0,
+				matchedTrayId: 254,
+				matchedAmsId: null,
+			});
+		});
+
+		it('should match the external spool when no AMS is connected', () => {
+			const profiles: FilamentProfile[] = [createProfile(0, 'TPU', '#FF0000')];
+
+			const status = PrinterStatusParser.parse({
+				print: {
+					vt_tray: { id: '254', tray_type: 'TPU', tray_color: 'FF0000FF' },
+				},
+			});
+
+			const result = FilamentMatcher.matchProfilesToAMS(profiles, status);
+
+			expect(result.mapping).toEqual([254]);
+			expect(result.matches[0]).toMatchObject({ matchedTrayId: 254, matchedAmsId: null });
+			expect(result.amsDetected).toBe(false);
+			expect(result.traysDetected).toBe(true);
+			expect(result.totalSlots).toBe(1);
+		});
+
+		it('should fail when the external spool does not match and no AMS is connected', () => {
+			const profiles: FilamentProfile[] = [createProfile(0, 'PLA', '#000000')];
+
+			const status = PrinterStatusParser.parse({
+				print: {
+					vt_tray: { id: '254', tray_type: 'TPU', tray_color: 'FF0000FF' },
+				},
+			});
+
+			expect(() => FilamentMatcher.matchProfilesToAMS(profiles, status)).toThrow(
+				/Available: External: TPU \(#FF0000\)/,
+			);
+		});
+
+		it('should prefer AMS trays over an identical external spool', () => {
+			const profiles: FilamentProfile[] = [createProfile(0, 'PLA', '#515151')];
+
+			const status = PrinterStatusParser.parse({
+				print: {
+					ams: createMockAMS([{ id: '2', type: 'PLA', color: '#515151' }]),
+					vt_tray: { id: '254', tray_type: 'PLA', tray_color: '515151FF' },
+				},
+			});
+
+			expect(FilamentMatcher.matchProfilesToAMS(profiles, status).mapping).toEqual([2]);
+		});
+
+		it('should list the external spool in error messages', () => {
+			const profiles: FilamentProfile[] = [createProfile(0, 'ABS', '#000000')];
+
+			const status = PrinterStatusParser.parse({
+				print: {
+					ams: createMockAMS([{ id: '0', type: 'PLA', color: '#515151' }]),
+					vt_tray: { id: '254', tray_type: 'TPU', tray_color: 'FF0000FF' },
+				},
+			});
+
+			expect(() => FilamentMatcher.matchProfilesToAMS(profiles, status)).toThrow(
+				/Available: Slot 1: PLA \(#515151\), External: TPU \(#FF0000\)/,
+			);
+		});
+
+		it('should report a color distance of 0 for exact matches', () => {
+			const profiles: FilamentProfile[] = [createProfile(0, 'PLA', '#000000')];
+			const status = createMockStatus(createMockAMS([{ id: '0', type: 'PLA', color: '000000FF' }]));
+
+			const result = FilamentMatcher.matchProfilesToAMS(profiles, status);
+
+			expect(result.matches[0].matchQuality).toBe('exact');
+			expect(result.matches[0].colorDistance).toBe(0);
+		});
+
+		it('should reject similar colors in exact mode', () => {
+			const profiles: FilamentProfile[] = [createProfile(0, 'PLA', '#000000')];
+			const status = createMockStatus(createMockAMS([{ id: '0', type: 'PLA', color: '161616FF' }]));
+
+			expect(() => FilamentMatcher.matchProfilesToAMS(profiles, status)).toThrow(
+				/Filament not found in AMS/,
+			);
+		});
+
+		it('should match similar colors in tolerant mode', () => {
+			const profiles: FilamentProfile[] = [createProfile(0, 'PLA', '#000000')];
+			const status = createMockStatus(
+				createMockAMS([
+					{ id: '0', type: 'PLA', color: 'FFFFFFFF' },
+					{ id: '1', type: 'PLA', color: '161616FF' },
+				]),
+			);
+
+			const result = FilamentMatcher.matchProfilesToAMS(profiles, status, { colorMode: 'tolerant' });
+
+			expect(result.mapping).toEqual([1]);
+			expect(result.matches[0].matchQuality).toBe('close');
+			expect(result.matches[0].colorDistance).toBeCloseTo(4.3, 1);
+			expect(result.matches[0].currentColor).toBe('#161616');
+		});
+
+		it('should pick the closest color in tolerant mode', () => {
+			const profiles: FilamentProfile[] = [createProfile(0, 'PLA', '#000000')];
+			const status = createMockStatus(
+				createMockAMS([
+					{ id: '0', type: 'PLA', color: '202020FF' },
+					{ id: '1', type: 'PLA', color: '101010FF' },
+				]),
+			);
+
+			const result = FilamentMatcher.matchProfilesToAMS(profiles, status, { colorMode: 'tolerant' });
+
+			expect(result.mapping).toEqual([1]);
+		});
+
+		it('should prefer exact matches over closer tolerant matches in other slots', () => {
+			const profiles: FilamentProfile[] = [createProfile(0, 'PLA', '#000000')];
+			const status = createMockStatus(
+				createMockAMS([
+					{ id: '0', type: 'PLA', color: '050505FF' },
+					{ id: '1', type: 'PLA', color: '000000FF' },
+				]),
+			);
+
+			const result = FilamentMatcher.matchProfilesToAMS(profiles, status, { colorMode: 'tolerant' });
+
+			expect(result.mapping).toEqual([1]);
+			expect(result.matches[0].matchQuality).toBe('exact');
+		});
+
+		it('should not match other filament types in tolerant mode', () => {
+			const profiles: FilamentProfile[] = [createProfile(0, 'PLA', '#000000')];
+			const status = createMockStatus(createMockAMS([{ id: '0', type: 'PETG', color: '000000FF' }]));
+
+			expect(() =>
+				FilamentMatcher.matchProfilesToAMS(profiles, status, { colorMode: 'tolerant' }),
+			).toThrow(/Filament not found in AMS/);
+		});
+
+		it('should throw when the color difference exceeds the tolerance', () => {
+			const profiles: FilamentProfile[] = [createProfile(0, 'PLA', '#000000')];
+			const status = createMockStatus(createMockAMS([{ id: '0', type: 'PLA', color: '161616FF' }]));
+
+			expect(() =>
+				FilamentMatcher.matchProfilesToAMS(profiles, status, {
+					colorMode: 'tolerant',
+					colorTolerance: 2,
+				}),
+			).toThrow(/color difference up to 2/);
+		});
+
+		it('should match compatible subtypes of the same family', () => {
+			const profiles: FilamentProfile[] = [
+				createProfile(0, 'PLA', '#000000'),
+				createProfile(1, 'PETG', '#FFFFFF'),
+			];
+			const status = createMockStatus(
+				createMockAMS([
+					{ id: '0', type: 'PLA Matte', color: '000000FF' },
+					{ id: '1', type: 'PETG HF', color: 'FFFFFFFF' },
+				]),
+			);
+
+			const result = FilamentMatcher.matchProfilesToAMS(profiles, status);
+
+			expect(result.mapping).toEqual([0, 1]);
+			expect(result.matches[0].typeMatch).toBe('equivalent');
+			expect(result.matches[0].currentType).toBe('PLA Matte');
+			expect(result.matches[1].typeMatch).toBe('equivalent');
+		});
+
+		it('should treat hyphens, underscores and spaces in types alike', () => {
+			const profiles: FilamentProfile[] = [createProfile(0, 'pla_cf', '#000000')];
+			const status = createMockStatus(createMockAMS([{ id: '0', type: 'PLA-CF', color: '000000FF' }]));
+
+			const result = FilamentMatcher.matchProfilesToAMS(profiles, status);
+
+			expect(result.matches[0].typeMatch).toBe('exact');
+		});
+
+		it('should prefer the identical type over an equivalent type', () => {
+			const profiles: FilamentProfile[] = [createProfile(0, 'PLA', '#000000')];
+			const status = createMockStatus(
+				createMockAMS([
+					{ id: '0', type: 'PLA-S', color: '000000FF' },
+					{ id: '1', type: 'PLA', color: '000000FF' },
+				]),
+			);
+
+			const result = FilamentMatcher.matchProfilesToAMS(profiles, status);
+
+			expect(result.mapping).toEqual([1]);
+			expect(result.matches[0].typeMatch).toBe('exact');
+		});
+
+		it('should reject incompatible materials', () => {
+			const profiles: FilamentProfile[] = [createProfile(0, 'PLA', '#000000')];
+			const status = createMockStatus(createMockAMS([{ id: '0', type: 'TPU', color: '000000FF' }]));
+
+			expect(() => FilamentMatcher.matchProfilesToAMS(profiles, status)).toThrow(
+				'Filament not found in AMS: Need PLA (#000000) for profile 0',
+			);
+		});
+
+		it('should reject subtypes in exact type mode', () => {
+			const profiles: FilamentProfile[] = [createProfile(0, 'PLA', '#000000')];
+			const status = createMockStatus(
+				createMockAMS([{ id: '0', type: 'PLA Matte', color: '000000FF' }]),
+			);
+
+			expect(() =>
+				FilamentMatcher.matchProfilesToAMS(profiles, status, { typeMode: 'exact' }),
+			).toThrow(/Filament not found in AMS/);
+		});
+
+		it('should apply user-defined type families', () => {
+			const profiles: FilamentProfile[] = [
+				createProfile(0, 'PLA', '#000000'),
+				createProfile(1, 'PETG', '#FFFFFF'),
+			];
+			const status = createMockStatus(
+				createMockAMS([
+					{ id: '0', type: 'PLA Glow', color: '000000FF' },
+					{ id: '1', type: 'PCTG', color: 'FFFFFFFF' },
+				]),
+			);
+
+			const result = FilamentMatcher.matchProfilesToAMS(profiles, status, {
+				typeEquivalences: { PETG: ['PCTG'] },
+			});
+
+			// PLA keeps its built-in family, PETG is extended with PCTG
+			expect(result.mapping).toEqual([0, 1]);
+		});
+
+		it('should replace the built-in family with a user-defined family of the same name', () => {
+			const profiles: FilamentProfile[] = [createProfile(0, 'PLA', '#000000')];
+			const status = createMockStatus(createMockAMS([{ id: '0', type: 'PLA-CF', color: '000000FF' }]));
+
+			expect(() =>
+				FilamentMatcher.matchProfilesToAMS(profiles, status, {
+					typeEquivalences: { pla: ['PLA Matte'] },
+				}),
+			).toThrow(/Filament not found in AMS/);
+		});
+
+		it('should combine equivalent types with tolerant color matching', () => {
+			const profiles: FilamentProfile[] = [createProfile(0, 'PLA', '#000000')];
+			const status = createMockStatus(
+				createMockAMS([{ id: '2', type: 'PLA Basic', color: '161616FF' }]),
+			);
+
+			const result = FilamentMatcher.matchProfilesToAMS(profiles, status, { colorMode: 'tolerant' });
+
+			expect(result.mapping).toEqual([2]);
+			expect(result.matches[0].matchQuality).toBe('close');
+			expect(result.matches[0].typeMatch).toBe('equivalent');
+		});
+
+		it('should prefer the tray with the same preset ID', () => {
+			// Generic PLA and Bambu PLA Basic, both black
+			const profiles: FilamentProfile[] = [
+				{ ...createProfile(0, 'PLA', '#000000'), presetId: 'GFA00' },
+			];
+			const status = createMockStatus(
+				createMockAMS([
+					{ id: '0', type: 'PLA', color: '000000FF', presetId: 'GFL99' },
+					{ id: '1', type: 'PLA', color: '000000FF', presetId: 'GFA00' },
+				]),
+			);
+
+			const result = FilamentMatcher.matchProfilesToAMS(profiles, status);
+
+			expect(result.mapping).toEqual([1]);
+			expect(result.matches[0].presetMatch).toBe(true);
+			expect(result.matches[0].currentPresetId).toBe('GFA00');
+		});
+
+		it('should fall back to type and color when no preset ID matches', () => {
+			const profiles: FilamentProfile[] = [
+				{ ...createProfile(0, 'PLA', '#000000'), presetId: 'GFA01' },
+			];
+			const status = createMockStatus(
+				createMockAMS([
+					{ id: '0', type: 'PLA', color: 'FFFFFFFF', presetId: 'GFA01' },
+					{ id: '1', type: 'PLA', color: '000000FF', presetId: 'GFL99' },
+				]),
+			);
+
+			const result = FilamentMatcher.matchProfilesToAMS(profiles, status);
+
+			// Same preset in another color does not match
+			expect(result.mapping).toEqual([1]);
+			expect(result.matches[0].presetMatch).toBe(false);
+		});
+
+		it('should not match trays with unknown preset IDs by preset', () => {
+			const profiles: FilamentProfile[] = [createProfile(0, 'PLA', '#000000')];
+			const status = createMockStatus(
+				createMockAMS([{ id: '0', type: 'PLA', color: '000000FF', presetId: '' }]),
+			);
+
+			const result = FilamentMatcher.matchProfilesToAMS(profiles, status);
+
+			expect(result.mapping).toEqual([0]);
+			expect(result.matches[0].presetMatch).toBe(false);
+		});
+
+		it('should prefer the same preset ID over a closer color in tolerant mode', () => {
+			const profiles: FilamentProfile[] = [
+				{ ...createProfile(0, 'PLA', '#000000'), presetId: 'GFA00' },
+			];
+			const status = createMockStatus(
+				createMockAMS([
+					{ id: '0', type: 'PLA', color: '080808FF', presetId: 'GFL99' },
+					{ id: '1', type: 'PLA', color: '161616FF', presetId: 'GFA00' },
+				]),
+			);
+
+			const result = FilamentMatcher.matchProfilesToAMS(profiles, status, { colorMode: 'tolerant' });
+
+			expect(result.mapping).toEqual([1]);
+			expect(result.matches[0].matchQuality).toBe('close');
+			expect(result.matches[0].presetMatch).toBe(true);
+		});
+
+		it('should prefer the tray with the most filament left', () => {
+			const profiles: FilamentProfile[] = [createProfile(0, 'PLA', '#000000')];
+			const status = createMockStatus(
+				createMockAMS([
+					{ id: '0', type: 'PLA', color: '000000FF', remain: 10, weight: '1000' },
+					{ id: '1', type: 'PLA', color: '000000FF', remain: 80, weight: '1000' },
+					{ id: '2', type: 'PLA', color: '000000FF', remain: 50, weight: '1000' },
+				]),
+			);
+
+			const result = FilamentMatcher.matchProfilesToAMS(profiles, status);
+
+			expect(result.mapping).toEqual([1]);
+			expect(result.matches[0].remainingGrams).toBe(800);
+		});
+
+		it('should report sufficient filament', () => {
+			const profiles: FilamentProfile[] = [
+				{ ...createProfile(0, 'PLA', '#000000'), usedGrams: 120 },
+			];
+			const status = createMockStatus(
+				createMockAMS([{ id: '0', type: 'PLA', color: '000000FF', remain: 20, weight: '1000' }]),
+			);
+
+			const result = FilamentMatcher.matchProfilesToAMS(profiles, status);
+
+			expect(result.matches[0].sufficient).toBe(true);
+			expect(result.warnings).toEqual([]);
+		});
+
+		it('should warn when a tray does not hold enough filament', () => {
+			const profiles: FilamentProfile[] = [
+				{ ...createProfile(0, 'PLA', '#000000'), usedGrams: 250 },
+			];
+			const status = createMockStatus(
+				createMockAMS([{ id: '1', type: 'PLA', color: '000000FF', remain: 20, weight: '1000' }]),
+			);
+
+			const result = FilamentMatcher.matchProfilesToAMS(profiles, status);
+
+			expect(result.mapping).toEqual([1]);
+			expect(result.matches[0].sufficient).toBe(false);
+			expect(result.warnings).toEqual([
+				'Not enough filament in slot 2 (PLA #000000): print needs 250.0 g, about 200.0 g left',
+			]);
+		});
+
+		it('should add up the usage of profiles sharing a tray', () => {
+			const profiles: FilamentProfile[] = [
+				{ ...createProfile(0, 'PLA', '#000000'), usedGrams: 150 },
+				{ ...createProfile(1, 'PLA', '#000000'), usedGrams: 100 },
+			];
+			const status = createMockStatus(
+				createMockAMS([{ id: '0', type: 'PLA', color: '000000FF', remain: 20, weight: '1000' }]),
+			);
+
+			const result = FilamentMatcher.matchProfilesToAMS(profiles, status);
+
+			expect(result.matches.map((m) => m.sufficient)).toEqual([false, false]);
+			expect(result.warnings).toHaveLength(1);
+		});
+
+		it('should throw when a tray does not hold enough filament in fail mode', () => {
+			const profiles: FilamentProfile[] = [
+				{ ...createProfile(0, 'PLA', '#000000'), usedGrams: 250 },
+			];
+			const status = createMockStatus(
+				createMockAMS([{ id: '0', type: 'PLA', color: '000000FF', remain: 20, weight: '1000' }]),
+			);
+
+			expect(() =>
+				FilamentMatcher.matchProfilesToAMS(profiles, status, { sufficiencyMode: 'fail' }),
+			).toThrow('Not enough filament in slot 1');
+		});
+
+		it('should skip the check when usage or remaining filament is unknown', () => {
+			const profiles: FilamentProfile[] = [
+				{ ...createProfile(0, 'PLA', '#000000'), usedGrams: 250 },
+				createProfile(1, 'PETG', '#FFFFFF'),
+			];
+			const status = createMockStatus(
+				createMockAMS([
+					{ id: '0', type: 'PLA', color: '000000FF', remain: -1, weight: '1000' },
+					{ id: '1', type: 'PETG', color: 'FFFFFFFF', remain: 5, weight: '1000' },
+				]),
+			);
+
+			const result = FilamentMatcher.matchProfilesToAMS(profiles, status, {
+				sufficiencyMode: 'fail',
+			});
+
+			expect(result.matches.map((m) => m.sufficient)).toEqual([null, null]);
+			expect(result.matches[0].remainingGrams).toBeNull();
+		});
+
+		it('should not report shortages in off mode', () => {
+			const profiles: FilamentProfile[] = [
+				{ ...createProfile(0, 'PLA', '#000000'), usedGrams: 250 },
+			];
+			const status = createMockStatus(
+				createMockAMS([{ id: '0', type: 'PLA', color: '000000FF', remain: 20, weight: '1000' }]),
+			);
+
+			const result = FilamentMatcher.matchProfilesToAMS(profiles, status, { sufficiencyMode: 'off' });
+
+			expect(result.warnings).toEqual([]);
+		});
+
 		it('should format available filaments correctly in error messages', () => {
 			// Setup: Create scenario that will trigger error
 			const profiles: FilamentProfile[] = [
@@ -305,4 +829,29 @@ describe('FilamentMatcher', () => {
 			}).toThrow(/Available: Slot 1: PETG \(#515151\), Slot 2: PETG \(#000000\), Slot 3: PLA \(#68724D\), Slot 4: PLA \(#042F56\)/);
 		});
 	});
+
+	describe('parseTypeEquivalences', () => {
+		it('should parse one family per line', () => {
+			expect(
+				FilamentMatcher.parseTypeEquivalences('PLA: PLA Glow, PLA Marble\n\n  PETG:PCTG  \r\nASA:'),
+			).toEqual({
+				PLA: ['PLA Glow', 'PLA Marble'],
+				PETG: ['PCTG'],
+				ASA: [],
+			});
+		});
+
+		it('should return no families for empty input', () => {
+			expect(FilamentMatcher.parseTypeEquivalences('')).toEqual({});
+		});
+
+		it('should throw error for lines without a family name', () => {
+			expect(() => FilamentMatcher.parseTypeEquivalences('PLA Glow, PLA Marble')).toThrow(
+				'Invalid filament type equivalence: "PLA Glow, PLA Marble"',
+			);
+			expect(() => FilamentMatcher.parseTypeEquivalences(': PLA')).toThrow(
+				/Invalid filament type equivalence/,
+			);
+		});
+	});
 });
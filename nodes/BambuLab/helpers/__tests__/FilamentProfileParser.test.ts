@@ -1,13 +1,14 @@
 import AdmZip from 'adm-zip';
 import { FilamentProfileParser } from '../FilamentProfileParser';
+import { PrinterModels } from '../PrinterModels';
 
 /**
  * Helper function to create a mock .3mf file buffer
  * .3mf files are ZIP archives containing Metadata/plate_1.gcode
  */
-function createMock3MF(gcodeContent: string): Buffer {
+function createMock3MF(gcodeContent: string, plate = 1): Buffer {
 	const zip = new AdmZip();
-	zip.addFile('Metadata/plate_1.gcode', Buffer.from(gcodeContent, 'utf8'));
+	zip.addFile(`Metadata/plate_${plate}.gcode`, Buffer.from(gcodeContent, 'utf8'));
 	return zip.toBuffer();
 }
 
@@ -136,6 +137,115 @@ describe('FilamentProfileParser', () => {
 		});
 	});
 
+	describe('filament usage', () => {
+		it('should parse weight and length per used slot', () => {
+			const gcode = [
+				'; filament: 1,3',
+				'; total filament length [mm] : 2501.86,120.5',
+				'; total filament weight [g] : 7.47,0.36',
+				'; filament_type = PLA;PLA;PETG',
+			].join('\n');
+
+			const result = FilamentProfileParser.parseFromBuffer(createMock3MF(gcode));
+
+			expect(result.profiles.map((p) => p.usedGrams)).toEqual([7.47, 0.36]);
+			expect(result.profiles.map((p) => p.usedMm)).toEqual([2501.86, 120.5]);
+		});
+
+		it('should parse "filament used" lines', () => {
+			const gcode = [
+				'; filament: 2',
+				'; filament used [mm] = 1500.00',
+				'; filament used [g] = 4.50',
+				'; filament_type = PLA;PETG',
+			].join('\n');
+
+			const result = FilamentProfileParser.parseFromBuffer(createMock3MF(gcode));
+
+			expect(result.profiles[0].usedGrams).toBe(4.5);
+			expect(result.profiles[0].usedMm).toBe(1500);
+		});
+
+		it('should convert length to grams using density and diameter', () => {
+			const gcode = [
+				'; filament: 2',
+				'; total filament length [mm] : 1000',
+				'; filament_density: 1.26,1.24',
+				'; filament_diameter: 1.75,1.75',
+				'; filament_type = PETG;PLA',
+			].join('\n');
+
+			const result = FilamentProfileParser.parseFromBuffer(createMock3MF(gcode));
+
+			// 1000 mm x pi x (0.875 mm)^2 = 2.405 cm^3 x 1.24 g/cm^3
+			expect(result.profiles[0].usedGrams).toBe(2.98);
+		});
+
+		it('should return null usage when the header has no usage data', () => {
+			const result = FilamentProfileParser.parseFromBuffer(
+				createMock3MF('; filament: 1\n; filament_type = PLA'),
+			);
+
+			expect(result.profiles[0].usedGrams).toBeNull();
+			expect(result.profiles[0].usedMm).toBeNull();
+		});
+	});
+
+	describe('preset IDs', () => {
+		it('should parse filament preset IDs from the G-code header', () => {
+			const gcode = [
+				'; filament: 1,3',
+				'; filament_type = PLA;PLA;PETG',
+				'; filament_ids = GFA00;GFL99;GFG02',
+			].join('\n');
+
+			const result = FilamentProfileParser.parseFromBuffer(createMock3MF(gcode));
+
+			expect(result.profiles.map((p) => p.presetId)).toEqual(['GFA00', 'GFG02']);
+		});
+
+		it('should read preset IDs from the project settings when the header has none', () => {
+			const zip = new AdmZip();
+			zip.addFile(
+				'Metadata/plate_1.gcode',
+				Buffer.from('; filament: 2\n; filament_type = PLA;PLA', 'utf8'),
+			);
+			zip.addFile(
+				'Metadata/project_settings.config',
+				Buffer.from(JSON.stringify({ filament_ids: ['GFA00', 'GFA01'] }), 'utf8'),
+			);
+
+			const result = FilamentProfileParser.parseFromBuffer(zip.toBuffer());
+
+			expect(result.profiles[0].presetId).toBe('GFA01');
+		});
+
+		it('should use an empty preset ID when none is available', () => {
+			const result = FilamentProfileParser.parseFromBuffer(
+				createMock3MF('; filament: 1\n; filament_type = PLA'),
+			);
+
+			expect(result.profiles[0].presetId).toBe('');
+		});
+	});
+
+	describe('plate selection', () => {
+		it('should parse the requested plate', () => {
+			const zip = new AdmZip();
+			zip.addFile('Metadata/plate_1.gcode', Buffer.from('; filament: 1\n; filament_type = PLA', 'utf8'));
+			zip.addFile(
+				'Metadata/plate_2.gcode',
+				Buffer.from('; filament: 2\n; filament_type = PLA;PETG', 'utf8'),
+			);
+
+			const result = FilamentProfileParser.parseFromBuffer(zip.toBuffer(), 2);
+
+			expect(result.profiles).toHaveLength(1);
+			expect(result.profiles[0].type).toBe('PETG');
+			expect(result.detectedMapping).toEqual([1]);
+		});
+	});
+
 	describe('error handling', () => {
 		it('should throw error for invalid ZIP file', () => {
 			const invalidBuffer = Buffer.from('This is not a ZIP file', 'utf8');
@@ -155,6 +265,14 @@ describe('FilamentProfileParser', () => {
 			}).toThrow(/Metadata\/plate_1.gcode not found/);
 		});
 
+		it('should list the sliced plates when the requested plate is missing', () => {
+			const buffer = createMock3MF('; filament: 1\n; filament_type = PLA', 2);
+
+			expect(() => {
+				FilamentProfileParser.parseFromBuffer(buffer, 1);
+			}).toThrow(/Metadata\/plate_1.gcode not found. Sliced plates in this file: 2/);
+		});
+
 		it('should throw error when "; filament:" line is missing', () => {
 			const gcode = `
 ; HEADER_BLOCK_START
@@ -187,7 +305,7 @@ describe('FilamentProfileParser', () => {
 
 		it('should throw error for invalid slot numbers', () => {
 			const gcode = `
-; filament: 1,5
+; filament: 1,17
 ; filament_type = PLA;PLA
 ; filament_colour = #FF0000;#00FF00
 			`.trim();
@@ -196,7 +314,22 @@ describe('FilamentProfileParser', () => {
 
 			expect(() => {
 				FilamentProfileParser.parseFromBuffer(buffer);
-			}).toThrow(/Invalid AMS slot number.*Must be 1-4/);
+			}).toThrow(/Invalid AMS slot number.*Must be 1-16/);
+		});
+
+		it('should allow slots of all AMS units the printer model supports', () => {
+			const gcode = `
+; filament: 1,5
+; filament_type = PLA;PLA;PLA;PLA;PETG
+			`.trim();
+
+			const buffer = createMock3MF(gcode);
+			const result = FilamentProfileParser.parseFromBuffer(buffer, 1, PrinterModels.get('X1C'));
+
+			expect(result.detectedMapping).toEqual([0, 4]);
+			expect(() => {
+				FilamentProfileParser.parseFromBuffer(buffer, 1, PrinterModels.get('A1'));
+			}).toThrow(/Must be 1-4 for Bambu Lab A1/);
 		});
 
 		it('should throw error when slot references non-existent profile', () => {
@@ -0,0 +1,162 @@
+import { PreflightChecker } from '../PreflightChecker';
+import { PrinterModels } from '../PrinterModels';
+import { PrinterStatusParser } from '../PrinterStatusParser';
+import type { ThreeMfPlateInfo, ThreeMfProjectInfo } from '../types';
+
+describe('PreflightChecker', () => {
+	const createPlate = (overrides: Partial<ThreeMfPlateInfo> = {}): ThreeMfPlateInfo => ({
+		plate: 1,
+		name: null,
+		sliced: true,
+		hasThumbnail: false,
+		estimatedTimeSeconds: 3600,
+		weightGrams: 10,
+		nozzleDiameter: 0.4,
+		bedType: null,
+		slicerModelId: 'C12',
+		filaments: [],
+		objects: [],
+		...overrides,
+	});
+
+	const createProject = (overrides: Partial<ThreeMfProjectInfo> = {}): ThreeMfProjectInfo => ({
+		slicerVersion: '01.09.07.52',
+		printerModel: 'Bambu Lab P1S',
+		printerModelId: 'P1S',
+		printerSettingsId: 'Bambu Lab P1S 0.4 nozzle',
+		nozzleDiameter: 0.4,
+		bedType: 'Textured PEI Plate',
+		layerHeight: 0.2,
+		plates: [createPlate()],
+		...overrides,
+	});
+
+	const createStatus = (state = 'IDLE', nozzleDiameter: string | undefined = '0.4') =>
+		PrinterStatusParser.parse({
+			print: { gcode_state: state, nozzle_diameter: nozzleDiameter },
+		});
+
+	const p1s = PrinterModels.get('P1S');
+
+	it('should pass when model, nozzle and state match', () => {
+		const result = PreflightChecker.check(createProject(), 1, createStatus('FINISH'), p1s);
+
+		expect(result.passed).toBe(true);
+		expect(result.reasons).toEqual([]);
+		expect(result.checks.map((c) => [c.name, c.passed])).toEqual([
+			['printerModel', true],
+			['nozzleDiameter', true],
+			['bedType', null],
+			['printerState', true],
+		]);
+	});
+
+	it('should fail when the file was sliced for another printer model', () => {
+		const result = PreflightChecker.check(
+			createProject({ printerModel: 'Bambu Lab X1 Carbon', printerModelId: 'X1C' }),
+			1,
+			createStatus(),
+			PrinterModels.get('A1_MINI'),
+		);
+
+		expect(result.passed).toBe(false);
+		expect(result.reasons).toEqual([
+			'File was sliced for Bambu Lab X1 Carbon, but the printer is a Bambu Lab A1 mini',
+		]);
+	});
+
+	it('should fail when the nozzle diameter differs', () => {
+		const result = PreflightChecker.check(
+			createProject({ plates: [createPlate({ nozzleDiameter: 0.6 })] }),
+			1,
+			createStatus(),
+			p1s,
+		);
+
+		expect(result.passed).toBe(false);
+		expect(result.reasons).toEqual([
+			'File was sliced for a 0.6 mm nozzle, but a 0.4 mm nozzle is installed',
+		]);
+	});
+
+	it('should fail when the printer is busy', () => {
+		const result = PreflightChecker.check(createProject(), 1, createStatus('RUNNING'), p1s);
+
+		expect(result.passed).toBe(false);
+		expect(result.reasons).toEqual([
+			'Printer is not ready: state is RUNNING, expected IDLE or FINISH',
+		]);
+	});
+
+	it('should list all failed checks', () => {
+		const result = PreflightChecker.check(
+			createProject({ plates: [createPlate({ nozzleDiameter: 0.2 })] }),
+			1,
+			createStatus('PAUSE'),
+			PrinterModels.get('A1'),
+		);
+
+		expect(result.reasons).toHaveLength(3);
+	});
+
+	it('should use the project settings when the plate has no metadata', () => {
+		const result = PreflightChecker.check(
+			createProject({ nozzleDiameter: 0.8, plates: [] }),
+			1,
+			createStatus(),
+			p1s,
+		);
+
+		expect(result.checks[1]).toMatchObject({ passed: false, expected: '0.8 mm', actual: '0.4 mm' });
+	});
+
+	it('should detect the sliced model from the plate model id', () => {
+		const result = PreflightChecker.check(
+			createProject({ printerModel: null, printerModelId: null }),
+			1,
+			createStatus(),
+			p1s,
+		);
+
+		expect(result.checks[0].passed).toBe(true);
+	});
+
+	it('should skip checks when information is missing', () => {
+		const result = PreflightChecker.check(
+			createProject({
+				printerModel: null,
+				printerModelId: null,
+				nozzleDiameter: null,
+				bedType: null,
+				plates: [],
+			}),
+			1,
+			createStatus('IDLE', undefined),
+			PrinterModels.UNKNOWN,
+		);
+
+		expect(result.passed).toBe(true);
+		expect(result.checks.slice(0, 3).map((c) => c.passed)).toEqual([null, null, null]);
+	});
+
+	it('should skip the model check when the printer model is unknown', () => {
+		const result = PreflightChecker.check(createProject(), 1, createStatus(), PrinterModels.UNKNOWN);
+
+		expect(result.checks[0]).toMatchObject({
+			passed: null,
+			expected: 'Bambu Lab P1S',
+			message: 'Skipped: the printer model could not be detected',
+		});
+	});
+
+	it('should report the bed type of the plate or project', () => {
+		const project = createProject({ plates: [createPlate({ bedType: 'cool_plate' })] });
+
+		expect(PreflightChecker.check(project, 1, createStatus(), p1s).checks[2].expected).toBe(
+			'cool_plate',
+		);
+		expect(PreflightChecker.check(createProject(), 1, createStatus(), p1s).checks[2].expected).toBe(
+			'Textured PEI Plate',
+		);
+	});
+});
@@ -0,0 +1,95 @@
+import { PrintWaitCondition } from '../PrintWaitCondition';
+import { PrinterStatusParser } from '../PrinterStatusParser';
+import type { PrinterStatus } from '../types';
+
+describe('PrintWaitCondition', () => {
+	// Helper to create a normalized status from fields nested under "print" like real MQTT messages
+	const status = (gcode_state: string, mc_percent = 0, layer_num = 0): PrinterStatus =>
+		PrinterStatusParser.parse({ print: { gcode_state, mc_percent, layer_num } });
+
+	describe('stale reports after starting a print', () => {
+		it('should not accept FINISH left over from the previous print', () => {
+			const condition = new PrintWaitCondition({ type: 'state', state: 'FINISH' });
+
+			expect(condition.check(status('FINISH', 100))).toBe(false);
+			expect(condition.check(status('FINISH', 100))).toBe(false);
+			expect(condition.check(status('PREPARE', 0))).toBe(false);
+			expect(condition.check(status('RUNNING', 50))).toBe(false);
+			expect(condition.check(status('FINISH', 100))).toBe(true);
+		});
+
+		it('should not accept progress left over from the previous print', () => {
+			const condition = new PrintWaitCondition({ type: 'progress', percent: 50 });
+
+			expect(condition.check(status('FINISH', 100))).toBe(false);
+			expect(condition.check(status('RUNNING', 10))).toBe(false);
+			expect(condition.check(status('RUNNING', 50))).toBe(true);
+		});
+
+		it('should not fail on FAILED left over from the previous print', () => {
+			const condition = new PrintWaitCondition({ type: 'state', state: 'FINISH' });
+
+			expect(condition.check(status('FAILED'))).toBe(false);
+			expect(condition.check(status('PREPARE'))).toBe(false);
+			expect(() => condition.check(status('FAILED'))).toThrow(/FAILED/);
+		});
+
+		it('should count any state change as print activity', () => {
+			const condition = new PrintWaitCondition({ type: 'state', state: 'FINISH' });
+
+			expect(condition.check(status('IDLE'))).toBe(false);
+			expect(condition.check(status('FINISH'))).toBe(true);
+		});
+	});
+
+	describe('running prints', () => {
+		it('should accept a condition that is met while a print is active', () => {
+			expect(
+				new PrintWaitCondition({ type: 'state', state: 'RUNNING' }).check(status('RUNNING')),
+			).toBe(true);
+			expect(
+				new PrintWaitCondition({ type: 'layer', layer: 10 }).check(status('RUNNING', 20, 12)),
+			).toBe(true);
+		});
+
+		it('should throw when the print fails while waiting for another state', () => {
+			const condition = new PrintWaitCondition({ type: 'state', state: 'FINISH' });
+
+			condition.check(status('RUNNING'));
+			expect(() => condition.check(status('FAILED'))).toThrow(/FAILED/);
+		});
+
+		it('should accept FAILED when waiting for it or when stopOnFailure is off', () => {
+			const failed = new PrintWaitCondition({ type: 'state', state: 'FAILED' });
+			failed.check(status('RUNNING'));
+			expect(failed.check(status('FAILED'))).toBe(true);
+
+			const lenient = new PrintWaitCondition(
+				{ type: 'state', state: 'FINISH' },
+				{ stopOnFailure: false },
+			);
+			lenient.check(status('RUNNING'));
+			expect(lenient.check(status('FAILED'))).toBe(false);
+		});
+	});
+
+	describe('requirePrintActivity disabled', () => {
+		it('should accept a condition that is already met', () => {
+			const condition = new PrintWaitCondition(
+				{ type: 'state', state: 'FINISH' },
+				{ requirePrintActivity: false },
+			);
+
+			expect(condition.check(status('FINISH', 100))).toBe(true);
+		});
+	});
+
+	it('should ignore reports without a state', () => {
+		const condition = new PrintWaitCondition(
+			{ type: 'progress', percent: 0 },
+			{ requirePrintActivity: false },
+		);
+
+		expect(condition.check(PrinterStatusParser.parse({}))).toBe(false);
+	});
+});
@@ -0,0 +1,117 @@
+import { PrinterEventDetector } from '../PrinterEventDetector';
+import { PrinterStatusParser } from '../PrinterStatusParser';
+import type { HMSError, PrinterStatus } from '../types';
+
+describe('PrinterEventDetector', () => {
+	let detector: PrinterEventDetector;
+
+	// Helper to create a normalized status from fields nested under "print" like real MQTT messages
+	const status = (print: { gcode_state?: string; hms?: HMSError[] }): PrinterStatus =>
+		PrinterStatusParser.parse({ print });
+
+	beforeEach(() => {
+		detector = new PrinterEventDetector();
+	});
+
+	describe('state transitions', () => {
+		it('should use the first observed state as baseline without events', () => {
+			expect(detector.process(status({ gcode_state: 'IDLE' }))).toEqual([]);
+			expect(detector.getLastState()).toBe('IDLE');
+		});
+
+		it('should emit stateChange and printStarted when a print starts', () => {
+			detector.process(status({ gcode_state: 'IDLE' }));
+
+			const events = detector.process(status({ gcode_state: 'PREPARE' }));
+
+			expect(events.map((e) => e.event)).toEqual(['stateChange', 'printStarted']);
+			expect(events[1]).toMatchObject({ state: 'PREPARE', previousState: 'IDLE' });
+		});
+
+		it('should not emit printStarted when moving from PREPARE to RUNNING', () => {
+			detector.process(status({ gcode_state: 'FINISH' }));
+			detector.process(status({ gcode_state: 'PREPARE' }));
+
+			const events = detector.process(status({ gcode_state: 'RUNNING' }));
+
+			expect(events.map((e) => e.event)).toEqual(['stateChange']);
+		});
+
+		it('should not emit printStarted when resuming from PAUSE', () => {
+			detector.process(status({ gcode_state: 'RUNNING' }));
+			expect(detector.process(status({ gcode_state: 'PAUSE' })).map((e) => e.event)).toEqual([
+				'stateChange',
+				'printPaused',
+			]);
+
+			const events = detector.process(status({ gcode_state: 'RUNNING' }));
+
+			expect(events.map((e) => e.event)).toEqual(['stateChange']);
+		});
+
+		it('should emit printFinished and printFailed', () => {
+			detector.process(status({ gcode_state: 'RUNNING' }));
+			expect(detector.process(status({ gcode_state: 'FINISH' }))[1].event).toBe('printFinished');
+
+			detector.process(status({ gcode_state: 'RUNNING' }));
+			expect(detector.process(status({ gcode_state: 'FAILED' }))[1].event).toBe('printFailed');
+		});
+
+		it('should ignore statuses without a known state', () => {
+			expect(detector.process(status({}))).toEqual([]);
+			expect(detector.getLastState()).toBeUndefined();
+
+			detector.process(status({ gcode_state: 'RUNNING' }));
+
+			expect(detector.process(status({ gcode_state: 'bogus' }))).toEqual([]);
+			expect(detector.getLastState()).toBe('RUNNING');
+		});
+
+		it('should not repeat events for an unchanged state', () => {
+			detector.process(status({ gcode_state: 'RUNNING' }));
+			detector.process(status({ gcode_state: 'FINISH' }));
+
+			expect(detector.process(status({ gcode_state: 'FINISH' }))).toEqual([]);
+		});
+	});
+
+	describe('HMS errors', () => {
+		const hms = { attr: 0x03000100, code: 0x00010007 };
+
+		it('should not report HMS errors present in the baseline', () => {
+			expect(detector.process(status({ gcode_state: 'RUNNING', hms: [hms] }))).toEqual([]);
+		});
+
+		it('should report newly added HMS errors once', () => {
+			detector.process(status({ gcode_state: 'RUNNING', hms: [] }));
+
+			const events = detector.process(status({ gcode_state: 'RUNNING', hms: [hms] }));
+
+			expect(events).toHaveLength(1);
+			expect(events[0].event).toBe('hmsError');
+			expect(events[0].state).toBe('RUNNING');
+			expect(events[0].hmsErrors).toEqual([{ ...hms, hmsCode: '0300_0100_0001_0007' }]);
+
+			// Still active - no new event
+			expect(detector.process(status({ gcode_state: 'RUNNING', hms: [hms] }))).toEqual([]);
+		});
+
+		it('should report an HMS error again after it was cleared', () => {
+			detector.process(status({ gcode_state: 'IDLE', hms: [hms] }));
+			detector.process(status({ gcode_state: 'IDLE', hms: [] }));
+
+			expect(detector.process(status({ gcode_state: 'IDLE', hms: [hms] }))[0].event).toBe(
+				'hmsError',
+			);
+		});
+	});
+
+	describe('reset', () => {
+		it('should treat the next report as a new baseline', () => {
+			detector.process(status({ gcode_state: 'RUNNING' }));
+			detector.reset();
+
+			expect(detector.process(status({ gcode_state: 'FINISH' }))).toEqual([]);
+		});
+	});
+});
@@ -0,0 +1,114 @@
+import { PrinterModels } from '../PrinterModels';
+
+describe('PrinterModels', () => {
+	describe('fromSerialNumber', () => {
+		it('should detect models from the serial prefix', () => {
+			expect(PrinterModels.fromSerialNumber('00M09A000000000')?.id).toBe('X1C');
+			expect(PrinterModels.fromSerialNumber('03W00X000000000')?.id).toBe('X1E');
+			expect(PrinterModels.fromSerialNumber('01S00A000000000')?.id).toBe('P1P');
+			expect(PrinterModels.fromSerialNumber('01P00A000000000')?.id).toBe('P1S');
+			expect(PrinterModels.fromSerialNumber('03919A000000000')?.id).toBe('A1');
+			expect(PrinterModels.fromSerialNumber('0300AA000000000')?.id).toBe('A1_MINI');
+			expect(PrinterModels.fromSerialNumber('0948AB000000000')?.id).toBe('H2D');
+		});
+
+		it('should ignore case and whitespace', () => {
+			expect(PrinterModels.fromSerialNumber(' 01p00a000000000')?.id).toBe('P1S');
+		});
+
+		it('should return null for unknown or missing serials', () => {
+			expect(PrinterModels.fromSerialNumber('XYZ123')).toBeNull();
+			expect(PrinterModels.fromSerialNumber('')).toBeNull();
+			expect(PrinterModels.fromSerialNumber(undefined)).toBeNull();
+		});
+	});
+
+	describe('fromProductName', () => {
+		it('should match full product names and short names', () => {
+			expect(PrinterModels.fromProductName('Bambu Lab X1 Carbon')?.id).toBe('X1C');
+			expect(PrinterModels.fromProductName('Bambu Lab A1 mini')?.id).toBe('A1_MINI');
+			expect(PrinterModels.fromProductName('p1s')?.id).toBe('P1S');
+		});
+
+		it('should return null for unknown names', () => {
+			expect(PrinterModels.fromProductName('Some Printer')).toBeNull();
+			expect(PrinterModels.fromProductName(undefined)).toBeNull();
+		});
+	});
+
+	describe('fromSlicerModelId', () => {
+		it('should detect models from the sliced file model id', () => {
+			expect(PrinterModels.fromSlicerModelId('C12')?.id).toBe('P1S');
+			expect(PrinterModels.fromSlicerModelId('BL-P001')?.id).toBe('X1C');
+			expect(PrinterModels.fromSlicerModelId(' n1 ')?.id).toBe('A1_MINI');
+		});
+
+		it('should return null for unknown ids', () => {
+			expect(PrinterModels.fromSlicerModelId('Z99')).toBeNull();
+			expect(PrinterModels.fromSlicerModelId(undefined)).toBeNull();
+		});
+	});
+
+	describe('fromVersionInfo', () => {
+		it('should use the product name of any module', () => {
+			const model = PrinterModels.fromVersionInfo({
+				command: 'get_version',
+				module: [
+					{ name: 'ota', sw_ver: '01.02.00.00' },
+					{ name: 'mc', product_name: 'Bambu Lab A1' },
+				],
+			});
+
+			expect(model?.id).toBe('A1');
+		});
+
+		it('should fall back to the serial number of the printer modules', () => {
+			const model = PrinterModels.fromVersionInfo({
+				module: [
+					{ name: 'ams/0', sn: '00600A000000000' },
+					{ name: 'ota', sn: '01S00A000000000' },
+				],
+			});
+
+			expect(model?.id).toBe('P1P');
+		});
+
+		it('should return null without usable modules', () => {
+			expect(PrinterModels.fromVersionInfo({ module: [{ name: 'ams/0', sn: '01S00A' }] })).toBeNull();
+			expect(PrinterModels.fromVersionInfo(undefined)).toBeNull();
+		});
+	});
+
+	describe('detect', () => {
+		it('should prefer the serial number and fall back to the unknown model', () => {
+			expect(PrinterModels.detect('03919A000000000').id).toBe('A1');
+			expect(
+				PrinterModels.detect('XYZ', { module: [{ name: 'ota', product_name: 'Bambu Lab H2D' }] }).id,
+			).toBe('H2D');
+			expect(PrinterModels.detect('XYZ')).toBe(PrinterModels.UNKNOWN);
+		});
+	});
+
+	describe('capabilities', () => {
+		it('should expose model capabilities', () => {
+			const a1 = PrinterModels.get('A1');
+			const h2d = PrinterModels.get('H2D');
+
+			expect(a1.cameraProtocol).toBe('jpeg-tls');
+			expect(a1.storageRoot).toBe('/sdcard/');
+			expect(PrinterModels.get('X1C').cameraProtocol).toBe('rtsp');
+			expect(PrinterModels.get('X1E').chamberHeating).toBe(true);
+			expect(h2d.nozzleCount).toBe(2);
+		});
+
+		it('should compute the number of tray slots from the AMS count', () => {
+			expect(PrinterModels.getMaxTraySlots(PrinterModels.get('A1_MINI'))).toBe(4);
+			expect(PrinterModels.getMaxTraySlots(PrinterModels.get('P1S'))).toBe(16);
+			expect(PrinterModels.getMaxTraySlots(PrinterModels.UNKNOWN)).toBe(16);
+		});
+
+		it('should not list the unknown model', () => {
+			expect(PrinterModels.getAll().map((model) => model.id)).not.toContain('UNKNOWN');
+		});
+	});
+});
@@ -0,0 +1,118 @@
+import { PrinterStateStore } from '../PrinterStateStore';
+import type { PrinterReport } from '../types';
+
+describe('PrinterStateStore', () => {
+	let store: PrinterStateStore;
+
+	// Full report as sent in response to pushall (trimmed)
+	const fullReport = (): PrinterReport => ({
+		print: {
+			command: 'push_status',
+			msg: 0,
+			gcode_state: 'RUNNING',
+			mc_percent: 10,
+			layer_num: 5,
+			ams: {
+				ams: [
+					{
+						id: '0',
+						humidity: '4',
+						tray: [
+							{ id: '0', tray_type: 'PLA', tray_color: '000000FF', remain: 80 },
+							{ id: '1', tray_type: 'PETG', tray_color: 'FFFFFFFF', remain: 50 },
+						],
+					},
+				],
+				tray_now: '0',
+			},
+			hms: [{ attr: 1, code: 2 }],
+		},
+	});
+
+	beforeEach(() => {
+		store = new PrinterStateStore();
+	});
+
+	it('should start empty', () => {
+		expect(store.getSnapshot()).toEqual({});
+		expect(store.hasState()).toBe(false);
+		expect(store.getLastUpdate()).toBeNull();
+	});
+
+	it('should keep fields that are not part of a delta', () => {
+		store.update(fullReport());
+		store.update({ print: { command: 'push_status', msg: 1, mc_percent: 11 } });
+
+		const snapshot = store.getSnapshot();
+		expect(snapshot.print?.mc_percent).toBe(11);
+		expect(snapshot.print?.gcode_state).toBe('RUNNING');
+		expect(snapshot.print?.layer_num).toBe(5);
+		expect(store.hasState()).toBe(true);
+	});
+
+	it('should merge AMS trays by id', () => {
+		store.update(fullReport());
+		store.update({
+			print: { ams: { ams: [{ id: '0', tray: [{ id: '1', remain: 45 }] }] } },
+		});
+
+		const ams = store.getSnapshot().print?.ams;
+		const trays = ams?.ams?.[0].tray;
+		expect(trays).toHaveLength(2);
+		expect(trays?.[0]).toMatchObject({ id: '0', tray_type: 'PLA', remain: 80 });
+		expect(trays?.[1]).toMatchObject({ id: '1', tray_type: 'PETG', remain: 45 });
+		expect(ams?.ams?.[0].humidity).toBe('4');
+		expect(ams?.tray_now).toBe('0');
+	});
+
+	it('should replace a tray that is reported with only its id (emptied slot)', () => {
+		store.update(fullReport());
+		store.update({
+			print: { ams: { ams: [{ id: '0', tray: [{ id: '1' }] }] } },
+		});
+
+		const ams = store.getSnapshot().print?.ams;
+		expect(ams?.ams?.[0].tray?.[1]).toEqual({ id: '1' });
+		expect(store.getLastUpdated('print.ams.ams.0.tray.1.tray_type')).toBeUndefined();
+	});
+
+	it('should replace arrays without ids', () => {
+		store.update(fullReport());
+		store.update({ print: { hms: [] } });
+
+		expect(store.getSnapshot().print?.hms).toEqual([]);
+	});
+
+	it('should record per-field timestamps', () => {
+		const first = new Date('2025-01-01T00:00:00Z');
+		const second = new Date('2025-01-01T00:00:05Z');
+
+		store.update(fullReport(), first);
+		store.update({ print: { mc_percent: 11 } }, second);
+
+		expect(store.getLastUpdated('print.mc_percent')).toEqual(second);
+		expect(store.getLastUpdated('print.gcode_state')).toEqual(first);
+		expect(store.getLastUpdated('print.ams.ams.0.tray.1.remain')).toEqual(first);
+		expect(store.getLastUpdated('print.unknown')).toBeUndefined();
+		expect(store.getFieldTimestamps()['print.layer_num']).toEqual(first);
+		expect(store.getLastUpdate()).toEqual(second);
+	});
+
+	it('should return a copy that cannot modify the store', () => {
+		store.update(fullReport());
+
+		const snapshot = store.getSnapshot();
+		snapshot.print!.gcode_state = 'FAILED';
+
+		expect(store.getSnapshot().print?.gcode_state).toBe('RUNNING');
+	});
+
+	it('should clear all state', () => {
+		store.update(fullReport());
+		store.clear();
+
+		expect(store.getSnapshot()).toEqual({});
+		expect(store.getFieldTimestamps()).toEqual({});
+		expect(store.getLastUpdate()).toBeNull();
+	});
+});
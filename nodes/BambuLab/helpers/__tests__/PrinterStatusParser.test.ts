@@ -0,0 +1,323 @@
+import { PrinterStatusParser } from '../PrinterStatusParser';
+import type { PrinterReport } from '../types';
+
+describe('PrinterStatusParser', () => {
+	// Report as received from an A1 with AMS lite (trimmed)
+	const createReport = (): PrinterReport => ({
+		print: {
+			command: 'push_status',
+			msg: 0,
+			gcode_state: 'RUNNING',
+			gcode_file: 'model.gcode.3mf',
+			subtask_name: 'model',
+			mc_percent: 42,
+			mc_remaining_time: 73,
+			mc_print_stage: '2',
+			layer_num: 12,
+			total_layer_num: 150,
+			nozzle_temper: 219.8,
+			nozzle_target_temper: 220,
+			nozzle_diameter: '0.4',
+			nozzle_type: 'stainless_steel',
+			bed_temper: 65.1,
+			bed_target_temper: 65,
+			cooling_fan_speed: '15',
+			big_fan1_speed: '0',
+			spd_lvl: 2,
+			spd_mag: 100,
+			wifi_signal: '-45dBm',
+			hms: [{ attr: 0x03000100, code: 0x00010007 }],
+			ams: {
+				ams: [
+					{
+						id: '0',
+						humidity: '4',
+						humidity_raw: '31',
+						temp: '26.5',
+						dry_time: 0,
+						tray: [
+							{
+								id: '0',
+								tray_type: 'PLA',
+								tray_sub_brands: 'PLA Basic',
+								tray_color: '161616FF',
+								tray_info_idx: 'GFA00',
+								tag_uid: '5A3C1F2B00000100',
+								remain: 80,
+								tray_weight: '1000',
+								tray_diameter: '1.75',
+								nozzle_temp_min: '190',
+								nozzle_temp_max: '230',
+							},
+							{ id: '1' },
+							{ id: '2', tray_type: 'PETG', tray_color: 'FFFFFFFF', remain: -1 },
+						],
+					},
+				],
+				tray_now: '0',
+				tray_pre: '255',
+				tray_tar: '0',
+				tray_exist_bits: '5',
+				tray_is_bbl_bits: '1',
+			},
+			vt_tray: { id: '254', tray_type: 'TPU', tray_color: 'FF0000FF', remain: 0 },
+		},
+	});
+
+	describe('parse', () => {
+		it('should read fields nested under print', () => {
+			const status = PrinterStatusParser.parse(createReport());
+
+			expect(status.state).toBe('RUNNING');
+			expect(status.progress).toEqual({
+				percent: 42,
+				layer: 12,
+				totalLayers: 150,
+				remainingMinutes: 73,
+				fileName: 'model.gcode.3mf',
+				taskName: 'model',
+				stage: 2,
+			});
+			expect(status.temperatures).toEqual({
+				nozzle: { current: 219.8, target: 220 },
+				bed: { current: 65.1, target: 65 },
+				chamber: null,
+			});
+		});
+
+		it('should parse numeric strings and units', () => {
+			const status = PrinterStatusParser.parse(createReport());
+
+			expect(status.nozzle).toEqual({ diameter: 0.4, type: 'stainless_steel' });
+			expect(status.wifiSignalDbm).toBe(-45);
+			expect(status.fans).toEqual({ partCooling: 100, auxiliary: 0, chamber: null });
+			expect(status.speed).toEqual({ level: 2, percent: 100 });
+		});
+
+		it('should format HMS codes', () => {
+			const status = PrinterStatusParser.parse(createReport());
+
+			expect(status.hms).toEqual([
+				{ attr: 0x03000100, code: 0x00010007, hmsCode: '0300_0100_0001_0007' },
+			]);
+		});
+
+		it('should normalize AMS units and trays', () => {
+			const status = PrinterStatusParser.parse(createReport());
+
+			expect(status.ams?.activeTray).toBe(0);
+			expect(status.ams?.previousTray).toBeNull(); // 255 = no tray
+			expect(status.ams?.units).toHaveLength(1);
+
+			const unit = status.ams!.units[0];
+			expect(unit.humidityLevel).toBe(4);
+			expect(unit.humidityPercent).toBe(31);
+			expect(unit.temperature).toBe(26.5);
+
+			expect(unit.trays[0]).toEqual({
+				id: 0,
+				amsId: 0,
+				globalId: 0,
+				empty: false,
+				type: 'PLA',
+				subBrand: 'PLA Basic',
+				color: '#161616',
+				remainPercent: 80,
+				weightGrams: 1000,
+				diameter: 1.75,
+				nozzleTempMin: 190,
+				nozzleTempMax: 230,
+				presetId: 'GFA00',
+				tagUid: '5A3C1F2B00000100',
+				rfid: true,
+				present: true,
+				bambuFilament: true,
+			});
+			expect(unit.trays[1]).toMatchObject({ id: 1, empty: true, type: '', color: '', present: false });
+			expect(unit.trays[2]).toMatchObject({ rfid: false, present: true, bambuFilament: false });
+			expect(unit.trays[2].remainPercent).toBeNull(); // -1 = unknown
+		});
+
+		it('should parse the external spool', () => {
+			const status = PrinterStatusParser.parse(createReport());
+
+			expect(status.externalSpool).toMatchObject({
+				id: 254,
+				amsId: null,
+				globalId: 254,
+				type: 'TPU',
+				color: '#FF0000',
+				remainPercent: 0,
+			});
+		});
+
+		it('should report tray flags as unknown when the bitmasks are missing', () => {
+			const status = PrinterStatusParser.parse({
+				print: { ams: { ams: [{ id: '0', tray: [{ id: '0', tag_uid: '0000000000000000' }] }] } },
+			});
+
+			expect(status.ams?.units[0].trays[0]).toMatchObject({
+				rfid: false,
+				present: null,
+				bambuFilament: null,
+			});
+		});
+
+		it('should compute global tray IDs across AMS units', () => {
+			const status = PrinterStatusParser.parse({
+				print: {
+					ams: {
+						ams: [
+							{ id: '0', tray: [{ id: '0', tray_type: 'PLA' }] },
+							{ id: '1', tray: [{ id: '0', tray_type: 'PLA' }, { id: '3', tray_type: 'PETG' }] },
+						],
+						tray_now: '7',
+					},
+				},
+			});
+
+			expect(status.ams?.units[1].trays.map((tray) => tray.globalId)).toEqual([4, 7]);
+			expect(status.ams?.activeTray).toBe(7);
+		});
+
+		it('should return defaults for an empty report', () => {
+			const status = PrinterStatusParser.parse({});
+
+			expect(status.state).toBe('UNKNOWN');
+			expect(status.progress.percent).toBe(0);
+			expect(status.hms).toEqual([]);
+			expect(status.ams).toBeNull();
+			expect(status.externalSpool).toBeNull();
+		});
+
+		it('should map unknown states to UNKNOWN', () => {
+			expect(PrinterStatusParser.parse({ print: { gcode_state: 'SOMETHING' } }).state).toBe(
+				'UNKNOWN',
+			);
+			expect(PrinterStatusParser.parse({ print: { gcode_state: 'finish' } }).state).toBe('FINISH');
+		});
+	});
+
+	describe('listTrays', () => {
+		it('should list one entry per tray with the status of its AMS unit', () => {
+			const trays = PrinterStatusParser.listTrays(PrinterStatusParser.parse(createReport()));
+
+			expect(trays).toHaveLength(4);
+			expect(trays[0]).toEqual({
+				amsId: 0,
+				slot: 1,
+				trayId: 0,
+				active: true,
+				empty: false,
+				present: true,
+				type: 'PLA',
+				subBrand: 'PLA Basic',
+				color: '#161616',
+				remainPercent: 80,
+				weightGrams: 1000,
+				nozzleTempMin: 190,
+				nozzleTempMax: 230,
+				presetId: 'GFA00',
+				rfid: true,
+				bambuFilament: true,
+				humidityLevel: 4,
+				humidityPercent: 31,
+				temperature: 26.5,
+				drying: false,
+				dryingRemainingMinutes: 0,
+			});
+			expect(trays[2]).toMatchObject({ amsId: 0, slot: 3, trayId: 2, active: false });
+		});
+
+		it('should list the external spool last without AMS values', () => {
+			const trays = PrinterStatusParser.listTrays(PrinterStatusParser.parse(createReport()));
+
+			expect(trays[3]).toMatchObject({
+				amsId: null,
+				slot: null,
+				trayId: 254,
+				type: 'TPU',
+				humidityLevel: null,
+				temperature: null,
+				drying: false,
+				dryingRemainingMinutes: null,
+			});
+		});
+
+		it('should report the drying state of the AMS unit', () => {
+			const report = createReport();
+			report.print!.ams!.ams![0].dry_time = 95;
+
+			const status = PrinterStatusParser.parse(report);
+			expect(status.ams?.units[0]).toMatchObject({ drying: true, dryTimeMinutes: 95 });
+			expect(PrinterStatusParser.listTrays(status)[0]).toMatchObject({
+				drying: true,
+				dryingRemainingMinutes: 95,
+			});
+		});
+
+		it('should detect the AMS model of each unit', () => {
+			const report = createReport();
+			report.print!.ams!.ams![0].info = '1003';
+			expect(PrinterStatusParser.parse(report).ams?.units[0].model).toBe('AMS_2_PRO');
+
+			report.print!.ams!.ams![0].info = '2002';
+			expect(PrinterStatusParser.parse(report).ams?.units[0].model).toBe('AMS_LITE');
+
+			report.print!.ams!.ams![0].info = undefined;
+			expect(PrinterStatusParser.parse(report).ams?.units[0].model).toBe('UNKNOWN');
+
+			report.print!.ams!.ams![0].id = '128';
+			expect(PrinterStatusParser.parse(report).ams?.units[0].model).toBe('AMS_HT');
+		});
+
+		it('should return an empty list without AMS and external spool', () => {
+			expect(PrinterStatusParser.listTrays(PrinterStatusParser.parse({}))).toEqual([]);
+		});
+	});
+
+	describe('normalizeColor', () => {
+		it('should normalize AMS and slicer formats to #RRGGBB', () => {
+			expect(PrinterStatusParser.normalizeColor('515151FF')).toBe('#515151');
+			expect(PrinterStatusParser.normalizeColor('#ff0000')).toBe('#FF0000');
+			expect(PrinterStatusParser.normalizeColor(' 00ff00 ')).toBe('#00FF00');
+		});
+
+		it('should return an empty string for invalid colors', () => {
+			expect(PrinterStatusParser.normalizeColor(undefined)).toBe('');
+			expect(PrinterStatusParser.normalizeColor('red')).toBe('');
+		});
+	});
+
+	describe('toNumber', () => {
+		it('should parse numbers and numeric strings', () => {
+			expect(PrinterStatusParser.toNumber(5)).toBe(5);
+			expect(PrinterStatusParser.toNumber('26.5')).toBe(26.5);
+		});
+
+		it('should return null for missing or invalid values', () => {
+			expect(PrinterStatusParser.toNumber(undefined)).toBeNull();
+			expect(PrinterStatusParser.toNumber('')).toBeNull();
+			expect(PrinterStatusParser.toNumber('abc')).toBeNull();
+		});
+	});
+
+	describe('getGlobalTrayId', () => {
+		it('should combine AMS and tray index', () => {
+			expect(PrinterStatusParser.getGlobalTrayId(0, 3)).toBe(3);
+			expect(PrinterStatusParser.getGlobalTrayId(3, 2)).toBe(14);
+		});
+	});
+
+	describe('formatHmsCode', () => {
+		it('should format attr and code as four-digit groups', () => {
+			expect(PrinterStatusParser.formatHmsCode({ attr: 0x0c000300, code: 0x00030003 })).toBe(
+				'0C00_0300_0003_0003',
+			);
+		});
+
+		it('should treat missing values as zero', () => {
+			expect(PrinterStatusParser.formatHmsCode({})).toBe('0000_0000_0000_0000');
+		});
+	});
+});
@@ -0,0 +1,116 @@
+import AdmZip from 'adm-zip';
+import { ThreeMfArchive } from '../ThreeMfArchive';
+
+/**
+ * Helper function to create a .3mf archive with sliced G-code for the given plates
+ */
+function createMock3MF(plates: number[]): ThreeMfArchive {
+	const zip = new AdmZip();
+	zip.addFile('3D/3dmodel.model', Buffer.from('<model/>', 'utf8'));
+	zip.addFile('Metadata/plate_1.png', Buffer.from('png', 'utf8'));
+	for (const plate of plates) {
+		zip.addFile(`Metadata/plate_${plate}.gcode`, Buffer.from(`; plate ${plate}`, 'utf8'));
+	}
+	return ThreeMfArchive.fromBuffer(zip.toBuffer());
+}
+
+describe('ThreeMfArchive', () => {
+	describe('fromBuffer', () => {
+		it('should throw error for invalid ZIP file', () => {
+			expect(() => ThreeMfArchive.fromBuffer(Buffer.from('not a zip', 'utf8'))).toThrow(
+				/Not a valid ZIP archive/,
+			);
+		});
+	});
+
+	describe('getSlicedPlates', () => {
+		it('should return sliced plate numbers in ascending order', () => {
+			expect(createMock3MF([10, 2, 3]).getSlicedPlates()).toEqual([2, 3, 10]);
+		});
+
+		it('should return an empty list for unsliced projects', () => {
+			expect(createMock3MF([]).getSlicedPlates()).toEqual([]);
+		});
+	});
+
+	describe('resolvePlate', () => {
+		it('should return the first sliced plate', () => {
+			expect(createMock3MF([3, 2]).resolvePlate('first')).toBe(2);
+		});
+
+		it('should accept a sliced plate number', () => {
+			const archive = createMock3MF([1, 2]);
+
+			expect(archive.resolvePlate(2)).toBe(2);
+			expect(archive.hasSlicedPlate(2)).toBe(true);
+		});
+
+		it('should reject plates without sliced G-code', () => {
+			expect(() => createMock3MF([1, 3]).resolvePlate(2)).toThrow(
+				/Plate 2 does not contain sliced G-code.*Sliced plates in this file: 1, 3/,
+			);
+		});
+
+		it('should reject invalid plate numbers', () => {
+			expect(() => createMock3MF([1]).resolvePlate(0)).toThrow(/Invalid plate number: 0/);
+			expect(() => createMock3MF([1]).resolvePlate(1.5)).toThrow(/Invalid plate number/);
+		});
+
+		it('should fail when no plate is sliced', () => {
+			expect(() => createMock3MF([]).resolvePlate('first')).toThrow(/No sliced plates found/);
+		});
+	});
+
+	describe('getPlateGcode', () => {
+		it('should return plate G-code or null', () => {
+			const archive = createMock3MF([2]);
+
+			expect(archive.getPlateGcode(2)).toBe('; plate 2');
+			expect(archive.getPlateGcode(1)).toBeNull();
+		});
+	});
+
+	describe('getPlateThumbnail', () => {
+		const zip = new AdmZip();
+		zip.addFile('Metadata/plate_1.png', Buffer.from('large 1'));
+		zip.addFile('Metadata/plate_1_small.png', Buffer.from('small 1'));
+		zip.addFile('Metadata/plate_3.png', Buffer.from('large 3'));
+		zip.addFile('Metadata/plate_3_small.png', Buffer.from('small 3'));
+		const archive = ThreeMfArchive.fromBuffer(zip.toBuffer());
+
+		it('should return the thumbnail in the requested size', () => {
+			expect(archive.getPlateThumbnail(3)?.toString()).toBe('large 3');
+			expect(archive.getPlateThumbnail(1, 'small')?.toString()).toBe('small 1');
+		});
+
+		it('should return null when the plate has no thumbnail', () => {
+			expect(archive.getPlateThumbnail(2)).toBeNull();
+		});
+
+		it('should list the plates with thumbnails', () => {
+			expect(archive.getThumbnailPlates()).toEqual([1, 3]);
+		});
+	});
+
+	describe('getProjectSettings', () => {
+		const createArchive = (content?: string) => {
+			const zip = new AdmZip();
+			if (content !== undefined) {
+				zip.addFile('Metadata/project_settings.config', Buffer.from(content, 'utf8'));
+			}
+			return ThreeMfArchive.fromBuffer(zip.toBuffer());
+		};
+
+		it('should parse the project settings', () => {
+			expect(createArchive('{"filament_ids":["GFA00"]}').getProjectSettings()).toEqual({
+				filament_ids: ['GFA00'],
+			});
+		});
+
+		it('should return null for missing or invalid settings', () => {
+			expect(createArchive().getProjectSettings()).toBeNull();
+			expect(createArchive('not json').getProjectSettings()).toBeNull();
+			expect(createArchive('[1, 2]').getProjectSettings()).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,273 @@
+import AdmZip from 'adm-zip';
+import { ThreeMfMetadataParser } from '../ThreeMfMetadataParser';
+
+const SLICE_INFO = `<?xml version="1.0" encoding="UTF-8"?>
+<config>
+  <header>
+    <header_item key="X-BBL-Client-Type" value="slicer"/>
+    <header_item key="X-BBL-Client-Version" value="01.09.07.52"/>
+  </header>
+  <plate>
+    <metadata key="index" value="1"/>
+    <metadata key="printer_model_id" value="C12"/>
+    <metadata key="nozzle_diameters" value="0.4"/>
+    <metadata key="prediction" value="4180"/>
+    <metadata key="weight" value="12.34"/>
+    <object identify_id="96" name="Bracket &amp; Clip" skipped="false" />
+    <object identify_id="120" name="Cube" skipped="false" />
+    <filament id="1" tray_info_idx="GFA00" type="PLA" color="#000000" used_m="3.21" used_g="9.58" />
+    <filament id="3" tray_info_idx="GFG02" type="PETG" color="#FFFFFF" used_m="0.92" used_g="2.76" />
+  </plate>
+</config>`;
+
+const MODEL_SETTINGS = `<?xml version="1.0" encoding="UTF-8"?>
+<config>
+  <object id="2">
+    <metadata key="name" value="Bracket &amp; Clip"/>
+    <metadata key="extruder" value="1"/>
+    <part id="1" subtype="normal_part">
+      <metadata key="name" value="Bracket part"/>
+    </part>
+  </object>
+  <object id="5">
+    <metadata key="name" value="Cube"/>
+  </object>
+  <object id="9">
+    <metadata key="name" value="Spacer"/>
+  </object>
+  <plate>
+    <metadata key="plater_id" value="1"/>
+    <metadata key="plater_name" value="Brackets"/>
+    <metadata key="locked" value="false"/>
+    <model_instance>
+      <metadata key="object_id" value="2"/>
+      <metadata key="instance_id" value="0"/>
+      <metadata key="identify_id" value="96"/>
+    </model_instance>
+  </plate>
+  <plate>
+    <metadata key="plater_id" value="2"/>
+    <metadata key="plater_name" value=""/>
+    <metadata key="bed_type" value="cool_plate"/>
+    <model_instance>
+      <metadata key="object_id" value="9"/>
+      <metadata key="instance_id" value="0"/>
+      <metadata key="identify_id" value="210"/>
+    </model_instance>
+  </plate>
+</config>`;
+
+const PROJECT_SETTINGS = {
+	printer_model: 'Bambu Lab P1S',
+	printer_settings_id: 'Bambu Lab P1S 0.4 nozzle',
+	nozzle_diameter: ['0.4'],
+	curr_bed_type: 'Textured PEI Plate',
+	layer_height: '0.2',
+};
+
+/**
+ * Helper function to create a .3mf file with the given metadata files
+ */
+function createMock3MF(files: Record<string, string>): Buffer {
+	const zip = new AdmZip();
+	for (const [name, content] of Object.entries(files)) {
+		zip.addFile(name, Buffer.from(content, 'utf8'));
+	}
+	return zip.toBuffer();
+}
+
+describe('ThreeMfMetadataParser', () => {
+	describe('parseFromBuffer', () => {
+		const info = ThreeMfMetadataParser.parseFromBuffer(
+			createMock3MF({
+				'Metadata/plate_1.gcode': '; plate 1',
+				'Metadata/plate_1.png': 'png',
+				'Metadata/slice_info.config': SLICE_INFO,
+				'Metadata/model_settings.config': MODEL_SETTINGS,
+				'Metadata/project_settings.config': JSON.stringify(PROJECT_SETTINGS),
+			}),
+		);
+
+		it('should parse project settings', () => {
+			expect(info).toMatchObject({
+				slicerVersion: '01.09.07.52',
+				printerModel: 'Bambu Lab P1S',
+				printerModelId: 'P1S',
+				printerSettingsId: 'Bambu Lab P1S 0.4 nozzle',
+				nozzleDiameter: 0.4,
+				bedType: 'Textured PEI Plate',
+				layerHeight: 0.2,
+			});
+		});
+
+		it('should parse slicing results of sliced plates', () => {
+			expect(info.plates[0]).toEqual({
+				plate: 1,
+				name: 'Brackets',
+				sliced: true,
+				hasThumbnail: true,
+				estimatedTimeSeconds: 4180,
+				weightGrams: 12.34,
+				nozzleDiameter: 0.4,
+				bedType: null,
+				slicerModelId: 'C12',
+				filaments: [
+					{ slot: 1, type: 'PLA', color: '#000000', presetId: 'GFA00', usedMeters: 3.21, usedGrams: 9.58 },
+					{ slot: 3, type: 'PETG', color: '#FFFFFF', presetId: 'GFG02', usedMeters: 0.92, usedGrams: 2.76 },
+				],
+				objects: [
+					{ identifyId: 96, objectId: null, name: 'Bracket & Clip' },
+					{ identifyId: 120, objectId: null, name: 'Cube' },
+				],
+			});
+		});
+
+		it('should list plates that are not sliced with their objects from the model settings', () => {
+			expect(info.plates).toHaveLength(2);
+			expect(info.plates[1]).toMatchObject({
+				plate: 2,
+				name: null,
+				sliced: false,
+				hasThumbnail: false,
+				estimatedTimeSeconds: null,
+				bedType: 'cool_plate',
+				filaments: [],
+				objects: [{ identifyId: 210, objectId: 9, name: 'Spacer' }],
+			});
+		});
+	});
+
+	describe('getBedType', () => {
+		const info = ThreeMfMetadataParser.parseFromBuffer(
+			createMock3MF({
+				'Metadata/model_settings.config': MODEL_SETTINGS,
+				'Metadata/project_settings.config': JSON.stringify(PROJECT_SETTINGS),
+			}),
+		);
+
+		it('should map the project bed type name to the command value', () => {
+			expect(ThreeMfMetadataParser.getBedType(info, 1)).toBe('textured_plate');
+		});
+
+		it('should prefer the bed type of the plate', () => {
+			expect(ThreeMfMetadataParser.getBedType(info, 2)).toBe('cool_plate');
+		});
+
+		it('should map bed type names case-insensitively', () => {
+			expect(
+				ThreeMfMetadataParser.getBedType({ ...info, bedType: 'high temp plate', plates: [] }, 1),
+			).toBe('hot_plate');
+			expect(
+				ThreeMfMetadataParser.getBedType({ ...info, bedType: 'Engineering Plate', plates: [] }, 1),
+			).toBe('eng_plate');
+		});
+
+		it('should return null for unknown or missing bed types', () => {
+			expect(
+				ThreeMfMetadataParser.getBedType({ ...info, bedType: 'Glass Plate', plates: [] }, 1),
+			).toBeNull();
+			expect(ThreeMfMetadataParser.getBedType({ ...info, bedType: null, plates: [] }, 1)).toBeNull();
+		});
+	});
+
+	describe('selectObjects', () => {
+		const info = ThreeMfMetadataParser.parseFromBuffer(
+			createMock3MF({ 'Metadata/slice_info.config': SLICE_INFO }),
+		);
+		const plate = info.plates[0];
+
+		it('should select objects by name and identify ID', () => {
+			expect(ThreeMfMetadataParser.selectObjects('cube, 96', plate)).toEqual([
+				{ identifyId: 120, objectId: null, name: 'Cube' },
+				{ identifyId: 96, objectId: null, name: 'Bracket & Clip' },
+			]);
+		});
+
+		it('should select every object once', () => {
+			expect(ThreeMfMetadataParser.selectObjects('Cube, 120,', plate)).toHaveLength(1);
+		});
+
+		it('should select all copies with the same name', () => {
+			const copies = {
+				...plate,
+				objects: [
+					{ identifyId: 96, objectId: 2, name: 'Cube' },
+					{ identifyId: 97, objectId: 3, name: 'Cube' },
+				],
+			};
+
+			expect(
+				ThreeMfMetadataParser.selectObjects('Cube', copies).map((object) => object.identifyId),
+			).toEqual([96, 97]);
+		});
+
+		it('should throw error for unknown objects', () => {
+			expect(() => ThreeMfMetadataParser.selectObjects('Sphere', plate)).toThrow(
+				'Object not found on plate 1: "Sphere". Available: Bracket & Clip (96), Cube (120)',
+			);
+			expect(() => ThreeMfMetadataParser.selectObjects('42', plate)).toThrow(/Object not found/);
+		});
+
+		it('should only accept identify IDs without plate metadata', () => {
+			expect(ThreeMfMetadataParser.selectObjects('96, 120', null)).toEqual([
+				{ identifyId: 96, objectId: null, name: '' },
+				{ identifyId: 120, objectId: null, name: '' },
+			]);
+			expect(() => ThreeMfMetadataParser.selectObjects('Cube', null)).toThrow(
+				/cannot be found by name/,
+			);
+		});
+
+		it('should throw error for an empty selection', () => {
+			expect(() => ThreeMfMetadataParser.selectObjects(' , ', plate)).toThrow('No objects selected');
+		});
+	});
+
+	describe('missing metadata', () => {
+		it('should return nulls for a file without metadata', () => {
+			const info = ThreeMfMetadataParser.parseFromBuffer(
+				createMock3MF({ 'Metadata/plate_2.gcode': '; plate 2' }),
+			);
+
+			expect(info).toEqual({
+				slicerVersion: null,
+				printerModel: null,
+				printerModelId: null,
+				printerSettingsId: null,
+				nozzleDiameter: null,
+				bedType: null,
+				layerHeight: null,
+				plates: [
+					{
+						plate: 2,
+						name: null,
+						sliced: true,
+						hasThumbnail: false,
+						estimatedTimeSeconds: null,
+						weightGrams: null,
+						nozzleDiameter: null,
+						bedType: null,
+						slicerModelId: null,
+						filaments: [],
+						objects: [],
+					},
+				],
+			});
+		});
+
+		it('should detect the printer from the slice info when the project settings are missing', () => {
+			const info = ThreeMfMetadataParser.parseFromBuffer(
+				createMock3MF({ 'Metadata/slice_info.config': SLICE_INFO }),
+			);
+
+			expect(info.printerModel).toBeNull();
+			expect(info.printerModelId).toBe('P1S');
+		});
+
+		it('should throw error for invalid ZIP file', () => {
+			expect(() => ThreeMfMetadataParser.parseFromBuffer(Buffer.from('not a zip'))).toThrow(
+				/Not a valid ZIP archive/,
+			);
+		});
+	});
+});
@@ -1,4 +1,5 @@
 import { BambuLabCommands } from '../commands';
+import { PrinterModels } from '../PrinterModels';
 
 describe('BambuLabCommands', () => {
 	let commands: BambuLabCommands;
@@ -50,9 +51,64 @@ describe('BambuLabCommands', () => {
 			expect(command.print.use_ams).toBe(false);
 		});
 
+		it('should point to the selected plate', () => {
+			const command = commands.startPrint('model.3mf', { plate: 3 });
+			expect(command.print.param).toBe('Metadata/plate_3.gcode');
+		});
+
+		it('should send the selected bed type', () => {
+			const command = commands.startPrint('model.3mf', { bedType: 'textured_plate' });
+			expect(command.print.bed_type).toBe('textured_plate');
+		});
+
+		it('should include the MD5 hash only when provided', () => {
+			expect(commands.startPrint('model.3mf').print.md5).toBeUndefined();
+
+			const command = commands.startPrint('model.3mf', { md5: 'd41d8cd98f00b204e9800998ecf8427e' });
+			expect(command.print.md5).toBe('d41d8cd98f00b204e9800998ecf8427e');
+		});
+
+		it('should use the storage root of the printer model', () => {
+			const x1Commands = new BambuLabCommands(PrinterModels.get('X1C'));
+
+			expect(x1Commands.startPrint('/model.3mf').print.url).toBe('file:///sdcard/model.3mf');
+			expect(x1Commands.getPrinterModel().id).toBe('X1C');
+		});
+
 		it('should handle file URLs correctly', () => {
-			const command = commands.startPrint('file:///custom/path/model.gcode');
-			expect(command.print.url).toBe('file:///custom/path/model.gcode');
+			const command = commands.startPrint('file:///custom/path/model.gcode.3mf');
+			expect(command.print.url).toBe('file:///custom/path/model.gcode.3mf');
+		});
+
+		it('should print plain G-code files with gcode_file', () => {
+			const command = commands.startPrint('/calibration.gcode', {
+				bedType: 'cool_plate',
+				plate: 2,
+			});
+
+			expect(command.print).toEqual({
+				sequence_id: expect.any(String),
+				command: 'gcode_file',
+				param: '/sdcard/calibration.gcode',
+			});
+		});
+
+		it('should handle file URLs of G-code files', () => {
+			const command = commands.startPrint('file:///custom/path/model.GCODE');
+			expect(command.print.command).toBe('gcode_file');
+			expect(command.print.param).toBe('/custom/path/model.GCODE');
+		});
+	});
+
+	describe('isGcodeFile', () => {
+		it('should detect plain G-code files by extension', () => {
+			expect(BambuLabCommands.isGcodeFile('calibration.gcode')).toBe(true);
+			expect(BambuLabCommands.isGcodeFile('/jobs/Calibration.GCODE')).toBe(true);
+		});
+
+		it('should not treat .3mf projects as G-code', () => {
+			expect(BambuLabCommands.isGcodeFile('model.gcode.3mf')).toBe(false);
+			expect(BambuLabCommands.isGcodeFile('model.3mf')).toBe(false);
 		});
 	});
 
@@ -83,6 +139,16 @@ describe('BambuLabCommands', () => {
 		});
 	});
 
+	describe('skipObjects', () => {
+		it('should create a skip_objects command with the object ids', () => {
+			const command = commands.skipObjects([96, 120]);
+
+			expect(command.print.command).toBe('skip_objects');
+			expect(command.print.obj_list).toEqual([96, 120]);
+			expect(command.print.sequence_id).toBeDefined();
+		});
+	});
+
 	describe('getPushAll', () => {
 		it('should create a pushall command', () => {
 			const command = commands.getPushAll();
@@ -130,6 +196,193 @@ describe('BambuLabCommands', () => {
 		});
 	});
 
+	describe('setTrayFilament', () => {
+		it('should create an ams_filament_setting command for an AMS tray', () => {
+			const command = commands.setTrayFilament(6, {
+				type: 'PETG',
+				color: '#ff8800',
+				presetId: 'GFG02',
+				nozzleTempMin: 230,
+				nozzleTempMax: 250,
+			});
+
+			expect(command.print).toEqual({
+				sequence_id: expect.any(String),
+				command: 'ams_filament_setting',
+				ams_id: 1,
+				tray_id: 2,
+				tray_info_idx: 'GFG02',
+				tray_color: 'FF8800FF',
+				nozzle_temp_min: 230,
+				nozzle_temp_max: 250,
+				tray_type: 'PETG',
+			});
+		});
+
+		it('should default to the generic preset and temperatures of the type', () => {
+			const command = commands.setTrayFilament(0, { type: 'PLA Matte', color: '000000' });
+
+			expect(command.print.tray_info_idx).toBe('GFL99');
+			expect(command.print.nozzle_temp_min).toBe(190);
+			expect(command.print.nozzle_temp_max).toBe(230);
+			expect(command.print.tray_type).toBe('PLA Matte');
+		});
+
+		it('should address the external spool', () => {
+			const command = commands.setTrayFilament(254, { type: 'TPU', color: 'FF0000FF' });
+
+			expect(command.print.ams_id).toBe(255);
+			expect(command.print.tray_id).toBe(254);
+			expect(command.print.tray_color).toBe('FF0000FF');
+		});
+
+		it('should reject trays the printer model does not have', () => {
+			const a1Commands = new BambuLabCommands(PrinterModels.get('A1'));
+
+			expect(() => a1Commands.setTrayFilament(4, { type: 'PLA', color: '#FFFFFF' })).toThrow(
+				'Invalid tray ID: 4',
+			);
+			expect(() => commands.setTrayFilament(-1, { type: 'PLA', color: '#FFFFFF' })).toThrow(
+				'Invalid tray ID',
+			);
+		});
+
+		it('should reject invalid colors and temperatures', () => {
+			expect(() => commands.setTrayFilament(0, { type: 'PLA', color: 'red' })).toThrow(
+				'Invalid filament color',
+			);
+			expect(() =>
+				commands.setTrayFilament(0, {
+					type: 'PLA',
+					color: '#FFFFFF',
+					nozzleTempMin: 240,
+					nozzleTempMax: 200,
+				}),
+			).toThrow('Invalid nozzle temperature range');
+			expect(() => commands.setTrayFilament(0, { type: 'PEEK', color: '#FFFFFF' })).toThrow(
+				'No default nozzle temperatures',
+			);
+		});
+	});
+
+	describe('loadFilament', () => {
+		it('should create an ams_change_filament command for the target tray', () => {
+			const command = commands.loadFilament(5, 250, 220);
+
+			expect(command.print).toEqual({
+				sequence_id: expect.any(String),
+				command: 'ams_change_filament',
+				target: 5,
+				curr_temp: 220,
+				tar_temp: 250,
+			});
+		});
+
+		it('should use the target temperature for the current filament by default', () => {
+			const command = commands.loadFilament(254, 230);
+
+			expect(command.print.target).toBe(254);
+			expect(command.print.curr_temp).toBe(230);
+		});
+
+		it('should reject invalid trays and temperatures', () => {
+			const a1Commands = new BambuLabCommands(PrinterModels.get('A1'));
+
+			expect(() => a1Commands.loadFilament(7, 220)).toThrow('Invalid tray ID: 7');
+			expect(() => commands.loadFilament(0, 0)).toThrow('Invalid nozzle temperature: 0');
+			expect(() => commands.loadFilament(0, 220, 400)).toThrow('Invalid nozzle temperature: 400');
+		});
+	});
+
+	describe('unloadFilament', () => {
+		it('should create an unload_filament command', () => {
+			const command = commands.unloadFilament();
+
+			expect(command.print.command).toBe('unload_filament');
+			expect(command.print.sequence_id).toBeDefined();
+		});
+	});
+
+	describe('startDrying', () => {
+		it('should create an ams_filament_drying command with the recommended settings', () => {
+			const command = commands.startDrying(1, 'AMS_2_PRO', 'PETG');
+
+			expect(command.print).toEqual({
+				sequence_id: expect.any(String),
+				command: 'ams_filament_drying',
+				ams_id: 1,
+				temp: 65,
+				cooling_temp: 45,
+				duration: 8,
+				humidity: 0,
+				mode: 1,
+				rotate_tray: false,
+			});
+		});
+
+		it('should use the given temperature and duration', () => {
+			const command = commands.startDrying(128, 'AMS_HT', 'PA', {
+				temperature: 80,
+				durationHours: 12,
+			});
+
+			expect(command.print.ams_id).toBe(128);
+			expect(command.print.temp).toBe(80);
+			expect(command.print.duration).toBe(12);
+		});
+
+		it('should reject temperatures above the limit of the material', () => {
+			expect(() => commands.startDrying(0, 'AMS_HT', 'PLA', { temperature: 65 })).toThrow(
+				'Invalid drying temperature for PLA: 65 °C. Use 40-55 °C.',
+			);
+			expect(() => commands.startDrying(0, 'AMS_HT', 'ABS', { temperature: 30 })).toThrow(
+				'Invalid drying temperature',
+			);
+		});
+
+		it('should limit the temperature to the AMS model', () => {
+			expect(commands.startDrying(0, 'AMS_2_PRO', 'PA').print.temp).toBe(65);
+			expect(commands.startDrying(128, 'AMS_HT', 'PA').print.temp).toBe(85);
+			expect(() => commands.startDrying(0, 'AMS_2_PRO', 'PA', { temperature: 80 })).toThrow(
+				'Invalid drying temperature for PA: 80 °C. Use 40-65 °C.',
+			);
+		});
+
+		it('should reject AMS models that cannot dry', () => {
+			expect(() => commands.startDrying(0, 'AMS', 'PLA')).toThrow(
+				'AMS 0 (AMS) cannot dry filament. Drying requires an AMS 2 Pro or AMS HT.',
+			);
+			expect(() => commands.startDrying(0, 'AMS_LITE', 'PLA')).toThrow('cannot dry filament');
+			expect(() => commands.startDrying(0, 'UNKNOWN', 'PLA')).toThrow('cannot dry filament');
+		});
+
+		it('should reject invalid durations, materials and AMS ids', () => {
+			expect(() => commands.startDrying(0, 'AMS_HT', 'PLA', { durationHours: 0 })).toThrow(
+				'Invalid drying duration',
+			);
+			expect(() => commands.startDrying(0, 'AMS_HT', 'PLA', { durationHours: 2.5 })).toThrow(
+				'Invalid drying duration',
+			);
+			expect(() => commands.startDrying(0, 'AMS_HT', 'PEEK' as never)).toThrow(
+				'Unknown drying material',
+			);
+			expect(() => commands.startDrying(-1, 'AMS_HT', 'PLA')).toThrow('Invalid AMS id');
+		});
+	});
+
+	describe('stopDrying', () => {
+		it('should create an ams_filament_drying command with mode 0', () => {
+			const command = commands.stopDrying(0);
+
+			expect(command.print).toMatchObject({
+				command: 'ams_filament_drying',
+				ams_id: 0,
+				mode: 0,
+				duration: 0,
+			});
+		});
+	});
+
 	describe('setSpeed', () => {
 		it('should create a speed command with valid percentage', () => {
 			const command = commands.setSpeed(100);
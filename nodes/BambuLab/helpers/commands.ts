@@ -1,12 +1,24 @@
 import type {
+	AMSChangeFilamentCommand,
+	AMSFilamentDryingCommand,
+	AMSFilamentSettingCommand,
 	PrintCommand,
+	SkipObjectsCommand,
 	PushingCommand,
 	SystemCommand,
 	GcodeLineCommand,
 	PrintCommandOptions,
+	PrinterModel,
 	LEDMode,
 	LEDNode,
+	AMSModel,
+	DryingMaterial,
+	DryingSettings,
+	TrayFilamentOptions,
+	UnloadFilamentCommand,
 } from './types';
+import { AMS_DRYING, AMS_FILAMENT, FILE_PATHS, PRINTER_DEFAULTS, PRINTER_LIMITS } from './constants';
+import { PrinterModels } from './PrinterModels';
 
 /**
  * Command Builder for Bambu Lab Printer MQTT Commands
@@ -15,6 +27,29 @@ import type {
 export class BambuLabCommands {
 	private sequenceId = 0;
 
+	private printerModel: PrinterModel;
+
+	/**
+	 * @param printerModel Model of the target printer (see PrinterModels), used for model-specific values
+	 */
+	constructor(printerModel: PrinterModel = PrinterModels.UNKNOWN) {
+		this.printerModel = printerModel;
+	}
+
+	/**
+	 * Set the model of the target printer, e.g. after detecting it via MQTT
+	 */
+	setPrinterModel(printerModel: PrinterModel): void {
+		this.printerModel = printerModel;
+	}
+
+	/**
+	 * Get the model of the target printer
+	 */
+	getPrinterModel(): PrinterModel {
+		return this.printerModel;
+	}
+
 	/**
 	 * Get next sequence ID (incremental)
 	 */
@@ -22,17 +57,31 @@ export class BambuLabCommands {
 		return (this.sequenceId++).toString();
 	}
 
+	/**
+	 * Check whether a file is plain G-code (printed with "gcode_file") rather than
+	 * a .3mf project (printed with "project_file")
+	 * Sliced projects are often named "model.gcode.3mf", so only the last extension counts
+	 */
+	static isGcodeFile(fileName: string): boolean {
+		return /\.gcode$/i.test(fileName.trim());
+	}
+
 	/**
 	 * Start a print job
+	 * Plain .gcode files are printed with "gcode_file" (see startGcodePrint), all
+	 * other files as .3mf projects with "project_file"
 	 * @param fileName Name of the file on the printer's SD card
 	 * @param options Print job options (amsMapping should be number[] if provided)
 	 */
 	startPrint(fileName: string, options?: PrintCommandOptions): PrintCommand {
-		// Ensure filename has proper path format for A1 series
-		// A1 uses /sdcard/, X1/P1 typically use root or /cache/
+		if (BambuLabCommands.isGcodeFile(fileName)) {
+			return this.startGcodePrint(fileName);
+		}
+
+		// Files are addressed relative to the printer's storage root
 		const fileUrl = fileName.startsWith('file:///')
 			? fileName
-			: `file:///sdcard/${fileName}`;
+			: `file://${this.printerModel.storageRoot}${fileName.replace(/^\/+/, '')}`;
 
 		// Extract just the filename (not the full path) for display
 		const displayName = fileName.split('/').pop() || fileName;
@@ -41,8 +90,8 @@ export class BambuLabCommands {
 			print: {
 				sequence_id: this.getNextSequenceId(),
 				command: 'project_file',
-				// Metadata/plate_1.gcode points to the plate within the 3MF file
-				param: 'Metadata/plate_1.gcode',
+				// Metadata/plate_N.gcode points to the plate within the 3MF file
+				param: FILE_PATHS.PLATE_GCODE_PATH(options?.plate ?? FILE_PATHS.DEFAULT_PLATE),
 				// For local prints, these are empty strings (cloud prints use big numbers)
 				project_id: '',
 				profile_id: '',
@@ -52,8 +101,10 @@ export class BambuLabCommands {
 				url: fileUrl,
 				file: '', // Not needed when url is specified
 				subtask_name: displayName,
+				// Only sent when known (uploaded by this node) so the printer can verify the file
+				...(options?.md5 ? { md5: options.md5 } : {}),
 				// Print settings - Note: US spelling "bed_leveling" per working examples
-				bed_type: 'auto', // "auto" for local prints, or specific plate type
+				bed_type: options?.bedType ?? 'auto', // "auto" for local prints, or specific plate type
 				bed_leveling: options?.bedLeveling ?? true,
 				flow_cali: options?.flowCalibration ?? false,
 				vibration_cali: options?.vibrationCalibration ?? true,
@@ -67,6 +118,27 @@ export class BambuLabCommands {
 		};
 	}
 
+	/**
+	 * Start printing a plain G-code file
+	 * The G-code controls the whole print, so calibration, AMS and bed type options
+	 * of project prints do not apply
+	 * @param fileName Name of the .gcode file on the printer's SD card
+	 */
+	startGcodePrint(fileName: string): PrintCommand {
+		// gcode_file takes a plain path on the storage, not a file:// URL
+		const filePath = fileName.startsWith('file://')
+			? fileName.substring('file://'.length)
+			: `${this.printerModel.storageRoot}${fileName.replace(/^\/+/, '')}`;
+
+		return {
+			print: {
+				sequence_id: this.getNextSequenceId(),
+				command: 'gcode_file',
+				param: filePath,
+			},
+		};
+	}
+
 	/**
 	 * Pause the current print job
 	 */
@@ -103,6 +175,20 @@ export class BambuLabCommands {
 		};
 	}
 
+	/**
+	 * Skip objects of the running print
+	 * @param objectIds identify_id values of the objects (see ThreeMfPlateObject)
+	 */
+	skipObjects(objectIds: number[]): SkipObjectsCommand {
+		return {
+			print: {
+				sequence_id: this.getNextSequenceId(),
+				command: 'skip_objects',
+				obj_list: objectIds,
+			},
+		};
+	}
+
 	/**
 	 * Request full printer status (pushall)
 	 */
@@ -216,19 +302,164 @@ export class BambuLabCommands {
 	}
 
 	/**
-	 * Unload filament from AMS
-	 * @param trayId Tray ID (0-3)
+	 * Unload the currently loaded filament
+	 * The printer heats the nozzle for the loaded filament itself
 	 */
-	unloadFilament(trayId: number): GcodeLineCommand {
-		return this.sendGcode('M620', `P${trayId}A`);
+	unloadFilament(): UnloadFilamentCommand {
+		return {
+			print: {
+				sequence_id: this.getNextSequenceId(),
+				command: 'unload_filament',
+			},
+		};
 	}
 
 	/**
-	 * Load filament from AMS
-	 * @param trayId Tray ID (0-3)
+	 * Load filament from an AMS tray or the external spool
+	 * The currently loaded filament is unloaded first
+	 * @param trayId Global tray ID (ams_id * 4 + tray_id, 254 for the external spool)
+	 * @param targetTemp Nozzle temperature for the new filament in °C
+	 * @param currentTemp Nozzle temperature for unloading the current filament in °C (default: targetTemp)
+	 * @throws Error if the tray does not exist or a temperature is out of range
 	 */
-	loadFilament(trayId: number): GcodeLineCommand {
-		return this.sendGcode('M620', `P${trayId}T255`);
+	loadFilament(trayId: number, targetTemp: number, currentTemp = targetTemp): AMSChangeFilamentCommand {
+		// Validates the tray against the printer model
+		this.getTrayAddress(trayId);
+
+		for (const temperature of [targetTemp, currentTemp]) {
+			if (!(temperature > 0 && temperature <= PRINTER_LIMITS.MAX_NOZZLE_TEMP)) {
+				throw new Error(
+					`Invalid nozzle temperature: ${temperature} °C. Use a temperature between 1 and ${PRINTER_LIMITS.MAX_NOZZLE_TEMP} °C.`,
+				);
+			}
+		}
+
+		return {
+			print: {
+				sequence_id: this.getNextSequenceId(),
+				command: 'ams_change_filament',
+				target: trayId,
+				curr_temp: currentTemp,
+				tar_temp: targetTemp,
+			},
+		};
+	}
+
+	/**
+	 * Set the filament information of an AMS tray or the external spool,
+	 * e.g. for spools without RFID tag
+	 * @param trayId Global tray ID (ams_id * 4 + tray_id, 254 for the external spool)
+	 * @param filament Filament type and color; preset ID and nozzle temperatures
+	 * default to the generic preset and typical range of the type
+	 * @throws Error if the tray, color or temperatures are invalid
+	 */
+	setTrayFilament(trayId: number, filament: TrayFilamentOptions): AMSFilamentSettingCommand {
+		const { amsId, tray } = this.getTrayAddress(trayId);
+
+		const color = filament.color.trim().replace(/^#/, '').toUpperCase();
+		if (!/^[0-9A-F]{6}([0-9A-F]{2})?$/.test(color)) {
+			throw new Error(`Invalid filament color: "${filament.color}". Expected a hex color such as #FF0000.`);
+		}
+
+		const type = filament.type.trim();
+		if (!type) {
+			throw new Error('Filament type is required, e.g. PLA');
+		}
+
+		const familyType = type.toUpperCase().split(/[\s_-]+/)[0];
+		const defaultTemps = AMS_FILAMENT.NOZZLE_TEMPERATURES[familyType];
+		const nozzleTempMin = filament.nozzleTempMin ?? defaultTemps?.[0];
+		const nozzleTempMax = filament.nozzleTempMax ?? defaultTemps?.[1];
+
+		if (nozzleTempMin === undefined || nozzleTempMax === undefined) {
+			throw new Error(
+				`No default nozzle temperatures for filament type "${type}". Set the minimum and maximum nozzle temperature.`,
+			);
+		}
+		if (
+			nozzleTempMin <= 0 ||
+			nozzleTempMin > nozzleTempMax ||
+			nozzleTempMax > PRINTER_LIMITS.MAX_NOZZLE_TEMP
+		) {
+			throw new Error(
+				`Invalid nozzle temperature range ${nozzleTempMin}-${nozzleTempMax} °C. The minimum must not exceed the maximum and the maximum is ${PRINTER_LIMITS.MAX_NOZZLE_TEMP} °C.`,
+			);
+		}
+
+		return {
+			print: {
+				sequence_id: this.getNextSequenceId(),
+				command: 'ams_filament_setting',
+				ams_id: amsId,
+				tray_id: tray,
+				tray_info_idx:
+					filament.presetId?.trim() || (AMS_FILAMENT.GENERIC_PRESET_IDS[familyType] ?? ''),
+				// The AMS reports colors with alpha channel
+				tray_color: color.length === 6 ? `${color}FF` : color,
+				nozzle_temp_min: nozzleTempMin,
+				nozzle_temp_max: nozzleTempMax,
+				tray_type: type,
+			},
+		};
+	}
+
+	/**
+	 * Start drying the filament in an AMS 2 Pro or AMS HT
+	 * @param amsId AMS unit id as reported in the AMS status
+	 * @param model AMS model of the unit, which limits the temperature (AMS 2 Pro 65 °C, AMS HT 85 °C)
+	 * @param material Material in the AMS, used for the default settings and the temperature limit
+	 * @param settings Temperature and duration (default: recommended settings of the material)
+	 * @throws Error if the AMS model cannot dry, or the AMS id, material, temperature or duration is invalid
+	 */
+	startDrying(
+		amsId: number,
+		model: AMSModel,
+		material: DryingMaterial,
+		settings: Partial<DryingSettings> = {},
+	): AMSFilamentDryingCommand {
+		const modelMaxTemp = AMS_DRYING.MAX_TEMP_BY_MODEL[model];
+		if (modelMaxTemp === undefined) {
+			throw new Error(
+				`AMS ${amsId} (${model}) cannot dry filament. Drying requires an AMS 2 Pro or AMS HT.`,
+			);
+		}
+
+		const recommended = AMS_DRYING.MATERIALS[material];
+		if (!recommended) {
+			throw new Error(
+				`Unknown drying material: "${material}". Supported: ${Object.keys(AMS_DRYING.MATERIALS).join(', ')}`,
+			);
+		}
+
+		const maxTemp = Math.min(recommended.maxTemp, modelMaxTemp);
+		// Materials dried hotter than the unit can reach (e.g. PA in an AMS 2 Pro) use the unit's limit
+		const temperature = settings.temperature ?? Math.min(recommended.temperature, maxTemp);
+		const durationHours = settings.durationHours ?? recommended.durationHours;
+
+		if (!(temperature >= AMS_DRYING.MIN_TEMP && temperature <= maxTemp)) {
+			throw new Error(
+				`Invalid drying temperature for ${material}: ${temperature} °C. Use ${AMS_DRYING.MIN_TEMP}-${maxTemp} °C.`,
+			);
+		}
+		if (
+			!Number.isInteger(durationHours) ||
+			durationHours < AMS_DRYING.MIN_DURATION_HOURS ||
+			durationHours > AMS_DRYING.MAX_DURATION_HOURS
+		) {
+			throw new Error(
+				`Invalid drying duration: ${durationHours} hours. Use ${AMS_DRYING.MIN_DURATION_HOURS}-${AMS_DRYING.MAX_DURATION_HOURS} whole hours.`,
+			);
+		}
+
+		return this.createDryingCommand(amsId, 1, temperature, durationHours);
+	}
+
+	/**
+	 * Stop drying in an AMS 2 Pro or AMS HT
+	 * @param amsId AMS unit id as reported in the AMS status
+	 */
+	stopDrying(amsId: number): AMSFilamentDryingCommand {
+		return this.createDryingCommand(amsId, 0, 0, 0);
 	}
 
 	/**
@@ -268,6 +499,58 @@ export class BambuLabCommands {
 		return this.sendGcode('M112');
 	}
 
+	/**
+	 * Build an ams_filament_drying command
+	 * @throws Error if the AMS id is invalid
+	 */
+	private createDryingCommand(
+		amsId: number,
+		mode: 0 | 1,
+		temperature: number,
+		durationHours: number,
+	): AMSFilamentDryingCommand {
+		// AMS HT units report ids from 128, so only the format is checked here
+		if (!Number.isInteger(amsId) || amsId < 0) {
+			throw new Error(`Invalid AMS id: ${amsId}. Use the id reported in the AMS status.`);
+		}
+
+		return {
+			print: {
+				sequence_id: this.getNextSequenceId(),
+				command: 'ams_filament_drying',
+				ams_id: amsId,
+				temp: temperature,
+				cooling_temp: AMS_DRYING.COOLING_TEMP,
+				duration: durationHours,
+				humidity: 0,
+				mode,
+				rotate_tray: false,
+			},
+		};
+	}
+
+	/**
+	 * Split a global tray ID into the AMS unit and tray addressed by AMS commands
+	 * @throws Error if the tray does not exist on the printer model
+	 */
+	private getTrayAddress(trayId: number): { amsId: number; tray: number } {
+		if (trayId === PRINTER_DEFAULTS.EXTERNAL_SPOOL_TRAY_ID) {
+			return { amsId: AMS_FILAMENT.EXTERNAL_SPOOL_AMS_ID, tray: trayId };
+		}
+
+		const maxTraySlots = PrinterModels.getMaxTraySlots(this.printerModel);
+		if (!Number.isInteger(trayId) || trayId < 0 || trayId >= maxTraySlots) {
+			throw new Error(
+				`Invalid tray ID: ${trayId}. Use 0-${maxTraySlots - 1} for AMS trays (ams_id * 4 + slot - 1) or ${PRINTER_DEFAULTS.EXTERNAL_SPOOL_TRAY_ID} for the external spool.`,
+			);
+		}
+
+		return {
+			amsId: Math.floor(trayId / PRINTER_DEFAULTS.TRAYS_PER_AMS),
+			tray: trayId % PRINTER_DEFAULTS.TRAYS_PER_AMS,
+		};
+	}
+
 	/**
 	 * Get current sequence ID (for reference)
 	 */
@@ -3,6 +3,8 @@
  * Centralizes timeouts, limits, and default values
  */
 
+import type { AMSModel, BedType, DryingMaterial, DryingSettings, GcodeState } from './types';
+
 // ==================== Connection Timeouts ====================
 export const TIMEOUTS = {
 	/** MQTT connection timeout in milliseconds */
@@ -15,18 +17,34 @@ export const TIMEOUTS = {
 	GRACEFUL_DISCONNECT: 3000, // 3 seconds
 	/** FTP download timeout for large files in milliseconds */
 	FTP_DOWNLOAD: 30000, // 30 seconds
+	/** Time to wait for the full pushall report before using partial reports */
+	FULL_STATUS_GRACE: 5000, // 5 seconds
+	/** Default maximum wait for the "Wait for Print State" operation in milliseconds */
+	WAIT_FOR_STATE: 7200000, // 2 hours
+	/** Time to wait for the "get_version" reply when detecting the printer model */
+	VERSION_INFO: 5000, // 5 seconds
+	/** Camera snapshot timeout (connect, authenticate and receive one frame) in milliseconds */
+	CAMERA_SNAPSHOT: 10000, // 10 seconds
+	/** Default maximum wait for loading or unloading filament in milliseconds */
+	FILAMENT_CHANGE: 300000, // 5 minutes
 } as const;
 
 // ==================== Polling & Intervals ====================
 export const INTERVALS = {
 	/** Polling interval for MQTT message buffer in milliseconds */
 	MESSAGE_POLL: 250, // 250ms (optimized from 100ms)
+	/** Initial delay before the trigger reconnects after a dropped connection */
+	TRIGGER_RECONNECT_INITIAL: 2000, // 2 seconds
+	/** Maximum delay between trigger reconnect attempts */
+	TRIGGER_RECONNECT_MAX: 60000, // 60 seconds
 } as const;
 
 // ==================== Buffer Limits ====================
 export const LIMITS = {
 	/** Maximum MQTT message buffer size before oldest messages are discarded */
 	MAX_MESSAGE_BUFFER: 100,
+	/** Maximum accepted camera frame size in bytes */
+	MAX_CAMERA_FRAME_SIZE: 10 * 1024 * 1024, // 10 MB
 } as const;
 
 // ==================== Printer Defaults ====================
@@ -39,6 +57,18 @@ export const PRINTER_DEFAULTS = {
 	MQTT_USERNAME: 'bblp',
 	/** Default FTP username */
 	FTP_USERNAME: 'bblp',
+	/** Number of trays per AMS unit */
+	TRAYS_PER_AMS: 4,
+	/** Global tray ID of the external spool (vt_tray) */
+	EXTERNAL_SPOOL_TRAY_ID: 254,
+	/** Global tray ID of the second external spool on dual-nozzle printers */
+	EXTERNAL_SPOOL_TRAY_ID_2: 255,
+	/** RTSPS camera port of X1 series and H2D */
+	RTSP_PORT: 322,
+	/** Camera port of A1/P1 series (TLS JPEG frame stream) */
+	CAMERA_PORT: 6000,
+	/** Camera username */
+	CAMERA_USERNAME: 'bblp',
 } as const;
 
 // ==================== Printer Limits ====================
@@ -51,8 +81,149 @@ export const PRINTER_LIMITS = {
 	MAX_FAN_SPEED: 100,
 	/** Minimum fan speed percentage */
 	MIN_FAN_SPEED: 0,
+	/** Maximum nozzle temperature in °C (H2D; X1/P1/A1 series reach 300) */
+	MAX_NOZZLE_TEMP: 350,
+} as const;
+
+// ==================== AMS Filament Settings ====================
+export const AMS_FILAMENT = {
+	/** ams_id that addresses the external spool in AMS commands */
+	EXTERNAL_SPOOL_AMS_ID: 255,
+	/** Nozzle temperature in °C for loading filament when the tray reports no temperature range */
+	DEFAULT_CHANGE_TEMP: 220,
+	/** Printer states in which filament cannot be changed */
+	BUSY_STATES: ['PREPARE', 'RUNNING', 'SLICING'] as readonly GcodeState[],
+
+	/** Generic Bambu Studio filament presets (tray_info_idx), used when no preset ID is given */
+	GENERIC_PRESET_IDS: {
+		PLA: 'GFL99',
+		PETG: 'GFG99',
+		ABS: 'GFB99',
+		ASA: 'GFB98',
+		TPU: 'GFU99',
+		PA: 'GFN99',
+		PC: 'GFC99',
+		PVA: 'GFS99',
+	} as Record<string, string>,
+
+	/** Nozzle temperature range in °C ([min, max]), used when no range is given */
+	NOZZLE_TEMPERATURES: {
+		PLA: [190, 230],
+		PETG: [220, 260],
+		ABS: [240, 270],
+		ASA: [240, 270],
+		TPU: [200, 240],
+		PA: [260, 290],
+		PC: [260, 290],
+		PVA: [190, 230],
+	} as Record<string, readonly [number, number]>,
+} as const;
+
+// ==================== Filament Matching ====================
+export const FILAMENT_MATCHING = {
+	/** Default maximum CIEDE2000 color difference for tolerant color matching */
+	DEFAULT_COLOR_TOLERANCE: 10,
+
+	/**
+	 * Built-in filament type families
+	 * Types in the same family are interchangeable for filament matching.
+	 * The key is the family name and is always part of its own family.
+	 * Comparison ignores case and treats spaces, hyphens and underscores alike.
+	 */
+	TYPE_EQUIVALENCES: {
+		PLA: [
+			'PLA Basic',
+			'PLA Matte',
+			'PLA Silk',
+			'PLA Silk+',
+			'PLA Tough',
+			'PLA Tough+',
+			'PLA Metal',
+			'PLA Marble',
+			'PLA Sparkle',
+			'PLA Glow',
+			'PLA Galaxy',
+			'PLA Wood',
+			'PLA Translucent',
+			'PLA Aero',
+			'PLA-S',
+			'PLA-CF',
+		],
+		PETG: ['PETG Basic', 'PETG HF', 'PETG Translucent', 'PETG-CF'],
+		ABS: ['ABS-GF'],
+		ASA: ['ASA Aero', 'ASA-CF'],
+		TPU: ['TPU 95A', 'TPU 95A HF', 'TPU for AMS'],
+		PA: ['PA-CF', 'PAHT-CF', 'PA6-CF', 'PA6-GF'],
+		PC: ['PC FR'],
+	} as Record<string, readonly string[]>,
+} as const;
+
+// ==================== AMS Models ====================
+export const AMS_MODELS = {
+	/** AMS HT units report ids from 128 */
+	HT_MIN_ID: 128,
+	/** AMS model by the low 4 bits of the hex info field of a unit */
+	INFO_TYPES: {
+		1: 'AMS',
+		2: 'AMS_LITE',
+		3: 'AMS_2_PRO',
+		4: 'AMS_HT',
+	} as Record<number, AMSModel>,
 } as const;
 
+// ==================== AMS Drying ====================
+export const AMS_DRYING = {
+	/** Highest drying temperature in °C per AMS model; models without an entry cannot dry */
+	MAX_TEMP_BY_MODEL: {
+		AMS_2_PRO: 65,
+		AMS_HT: 85,
+	} as Partial<Record<AMSModel, number>>,
+	/** Lowest drying temperature in °C */
+	MIN_TEMP: 40,
+	/** Longest drying time in hours */
+	MAX_DURATION_HOURS: 24,
+	/** Shortest drying time in hours */
+	MIN_DURATION_HOURS: 1,
+	/** Temperature in °C the AMS cools down to after drying */
+	COOLING_TEMP: 45,
+
+	/**
+	 * Recommended drying settings per material; the temperature must not exceed maxTemp,
+	 * above which spools soften or deform
+	 */
+	MATERIALS: {
+		PLA: { temperature: 55, durationHours: 8, maxTemp: 55 },
+		PETG: { temperature: 65, durationHours: 8, maxTemp: 65 },
+		TPU: { temperature: 65, durationHours: 8, maxTemp: 70 },
+		ABS: { temperature: 80, durationHours: 8, maxTemp: 80 },
+		ASA: { temperature: 80, durationHours: 8, maxTemp: 80 },
+		PA: { temperature: 85, durationHours: 12, maxTemp: 85 },
+		PC: { temperature: 80, durationHours: 8, maxTemp: 85 },
+		PVA: { temperature: 55, durationHours: 8, maxTemp: 60 },
+	} as Record<DryingMaterial, DryingSettings & { maxTemp: number }>,
+} as const;
+
+// ==================== Pre-flight Check ====================
+export const PREFLIGHT = {
+	/** Printer states in which a new print can be started */
+	READY_STATES: ['IDLE', 'FINISH'] as readonly GcodeState[],
+	/** Maximum difference between sliced and installed nozzle diameter in mm */
+	NOZZLE_DIAMETER_TOLERANCE: 0.01,
+} as const;
+
+// ==================== Bed Types ====================
+/**
+ * Bed type of the print command by plate name, as written to curr_bed_type in
+ * Bambu Studio project settings (names are compared case-insensitively)
+ */
+export const BED_TYPES: Record<string, BedType> = {
+	'cool plate': 'cool_plate',
+	'engineering plate': 'eng_plate',
+	'high temp plate': 'hot_plate',
+	'smooth pei plate': 'hot_plate', // Renamed "High Temp Plate" in newer Bambu Studio versions
+	'textured pei plate': 'textured_plate',
+};
+
 // ==================== Retry Configuration ====================
 export const RETRY_CONFIG = {
 	/** Maximum number of retry attempts */
@@ -67,14 +238,41 @@ export const RETRY_CONFIG = {
 
 // ==================== File Paths ====================
 export const FILE_PATHS = {
-	/** Default SD card path for A1 series */
-	A1_SDCARD_PATH: '/sdcard/',
-	/** Default cache path for X1/P1 series */
-	X1_CACHE_PATH: '/cache/',
-	/** Default plate metadata path in 3MF files */
-	PLATE_GCODE_PATH: 'Metadata/plate_1.gcode',
+	/** Printer storage root (the FTP root) as used in print URLs */
+	SDCARD_PATH: '/sdcard/',
+	/** Path of a plate's sliced G-code in 3MF files (plates are 1-indexed) */
+	PLATE_GCODE_PATH: (plate: number) => `Metadata/plate_${plate}.gcode`,
+	/** Path of a plate's thumbnail in 3MF files */
+	PLATE_THUMBNAIL_PATH: (plate: number) => `Metadata/plate_${plate}.png`,
+	/** Path of a plate's small thumbnail in 3MF files */
+	PLATE_SMALL_THUMBNAIL_PATH: (plate: number) => `Metadata/plate_${plate}_small.png`,
+	/** Path of the slicer project settings (JSON) in 3MF files */
+	PROJECT_SETTINGS_PATH: 'Metadata/project_settings.config',
+	/** Path of the slicing results (XML) in 3MF files */
+	SLICE_INFO_PATH: 'Metadata/slice_info.config',
+	/** Path of the object and plate settings (XML) in 3MF files */
+	MODEL_SETTINGS_PATH: 'Metadata/model_settings.config',
+	/** Plate printed when no plate is selected */
+	DEFAULT_PLATE: 1,
 } as const;
 
+// ==================== MIME Types ====================
+/** MIME types of files found on the printer storage, by lowercase extension */
+export const MIME_TYPES: Record<string, string> = {
+	'3mf': 'application/vnd.ms-package.3dmanufacturing-3dmodel+xml',
+	gcode: 'text/x.gcode',
+	mp4: 'video/mp4',
+	avi: 'video/x-msvideo',
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	json: 'application/json',
+	txt: 'text/plain',
+};
+
+/** MIME type used when the extension is unknown */
+export const DEFAULT_MIME_TYPE = 'application/octet-stream';
+
 // ==================== Error Messages ====================
 export const ERROR_TEMPLATES = {
 	MQTT_CONNECTION_TIMEOUT: (timeout: number) =>
@@ -92,12 +290,25 @@ export const ERROR_TEMPLATES = {
 		`Download timeout: ${path} took too long to download. The file may be very large or the connection is slow.`,
 	STATUS_TIMEOUT: (timeout: number) => `Status request timeout after ${timeout}ms`,
 	COMMAND_RESPONSE_TIMEOUT: (timeout: number) => `Command response timeout after ${timeout}ms`,
+	WAIT_TIMEOUT: (timeout: number) =>
+		`Timed out after ${timeout}ms waiting for the printer to reach the requested state`,
+	PRINT_FAILED_WHILE_WAITING: (state: string) =>
+		`Print entered ${state} state while waiting. Check the printer for HMS errors.`,
 	AMS_NOT_DETECTED:
 		'Auto-detect enabled but AMS not detected. The printer status query did not return AMS data. ' +
 		'This could be due to: (1) AMS not connected, (2) MQTT timing issue, or (3) printer not sending AMS data. ' +
 		'Please disable auto-detect and use manual AMS mapping, or ensure your AMS is properly connected.',
 	FILAMENT_NOT_FOUND: (type: string, color: string, index: number, available: string) =>
 		`Filament not found in AMS: Need ${type} (${color}) for profile ${index}. Available: ${available}`,
+	CAMERA_CONNECTION_FAILED: (ip: string, port: number, message: string) =>
+		`Failed to connect to camera at ${ip}:${port}: ${message}. The JPEG camera stream is only available on A1 and P1 series printers.`,
+	CAMERA_TIMEOUT: (timeout: number) =>
+		`Camera snapshot timeout after ${timeout}ms. The camera may be disabled or in use by another client.`,
+	CAMERA_CLOSED:
+		'Camera connection closed before a frame was received. Please verify your access code in the credentials.',
+	CAMERA_INVALID_FRAME: (message: string) => `Invalid camera frame: ${message}`,
+	CAMERA_NOT_SUPPORTED: (model: string) =>
+		`${model} does not provide JPEG snapshots. Use Get Stream URL to access its RTSP camera stream.`,
 	PRINTER_OFFLINE:
 		'Cannot connect to printer. Is the printer online and Developer Mode enabled?',
 } as const;
@@ -14,10 +14,44 @@ export interface BambuLabCredentials {
 	ftpPort: number;
 }
 
-// ===== Printer Status Types =====
+// ===== Raw Report Types =====
+// Shape of the JSON published by the printer on device/<serial>/report.
+// Values are passed through as reported (many numbers arrive as strings);
+// use PrinterStatusParser to turn a report into a normalized PrinterStatus.
 
-export interface PrinterStatus {
-	print?: PrintInfo;
+export interface PrinterReport {
+	print?: PrintReport;
+	info?: InfoReport;
+	system?: Record<string, unknown>;
+	pushing?: { sequence_id?: string; command?: string };
+}
+
+/**
+ * Reply to the "get_version" info command
+ */
+export interface InfoReport {
+	command?: string;
+	sequence_id?: string;
+	module?: VersionModule[];
+	[key: string]: unknown;
+}
+
+export interface VersionModule {
+	name?: string; // "ota", "mc", "ams/0", ...
+	project_name?: string;
+	product_name?: string; // e.g. "Bambu Lab A1 mini" (only reported by newer firmware)
+	sw_ver?: string;
+	hw_ver?: string;
+	sn?: string;
+}
+
+export interface PrintReport {
+	command?: string;
+	param?: string;
+	sequence_id?: string;
+	msg?: number;
+	url?: string;
+	subtask_name?: string;
 	gcode_file?: string;
 	gcode_state?: string;
 	mc_percent?: number;
@@ -26,9 +60,14 @@ export interface PrinterStatus {
 	total_layer_num?: number;
 	nozzle_temper?: number;
 	nozzle_target_temper?: number;
+	nozzle_diameter?: string;
+	nozzle_type?: string;
 	bed_temper?: number;
 	bed_target_temper?: number;
 	chamber_temper?: number;
+	cooling_fan_speed?: string;
+	big_fan1_speed?: string;
+	big_fan2_speed?: string;
 	fan_gear?: number;
 	spd_mag?: number;
 	spd_lvl?: number;
@@ -45,19 +84,6 @@ export interface PrinterStatus {
 	lights_report?: LightsReport[];
 	upgrade_state?: UpgradeState;
 	upload?: UploadStatus;
-	command?: string;
-	msg?: number;
-	sequence_id?: string;
-}
-
-export interface PrintInfo {
-	command?: string;
-	param?: string;
-	sequence_id?: string;
-	msg?: number;
-	url?: string;
-	subtask_name?: string;
-	gcode_file?: string;
 }
 
 export interface HMSError {
@@ -170,6 +196,114 @@ export interface UploadStatus {
 	message?: string;
 }
 
+// ===== Normalized Status Types =====
+// Produced by PrinterStatusParser from a (merged) PrinterReport.
+// Numbers are parsed, temperatures are in Celsius, and missing values are null.
+
+export interface PrinterStatus {
+	state: GcodeState;
+	progress: PrintProgress;
+	temperatures: TemperatureStatus;
+	speed: { level: number | null; percent: number | null };
+	fans: { partCooling: number | null; auxiliary: number | null; chamber: number | null };
+	nozzle: { diameter: number | null; type: string | null };
+	printError: number;
+	wifiSignalDbm: number | null;
+	hms: HMSEntry[];
+	ams: AMSSystemStatus | null;
+	externalSpool: AMSTrayStatus | null;
+	lights: LightsReport[];
+}
+
+export interface PrintProgress {
+	percent: number;
+	layer: number;
+	totalLayers: number;
+	remainingMinutes: number;
+	fileName: string;
+	taskName: string;
+	stage: number | null;
+}
+
+export interface TemperatureStatus {
+	nozzle: { current: number; target: number };
+	bed: { current: number; target: number };
+	chamber: number | null;
+}
+
+export interface HMSEntry {
+	attr: number;
+	code: number;
+	hmsCode: string; // "0300_0100_0001_0007" as shown in Bambu Studio
+}
+
+export interface AMSSystemStatus {
+	units: AMSUnitStatus[];
+	activeTray: number | null; // tray_now (null when nothing is loaded)
+	previousTray: number | null; // tray_pre
+	targetTray: number | null; // tray_tar
+}
+
+export type AMSModel = 'AMS' | 'AMS_LITE' | 'AMS_2_PRO' | 'AMS_HT' | 'UNKNOWN';
+
+export interface AMSUnitStatus {
+	id: number;
+	model: AMSModel; // Detected from the unit id (AMS HT from 128) and the info field
+	humidityLevel: number | null; // 1-5 index as reported by the AMS
+	humidityPercent: number | null; // humidity_raw (newer firmware only)
+	temperature: number | null;
+	dryTimeMinutes: number; // Remaining drying time (0 when not drying)
+	drying: boolean;
+	trays: AMSTrayStatus[];
+}
+
+export interface AMSTrayStatus {
+	id: number; // Tray index within its unit (254/255 for the external spool)
+	amsId: number | null; // Owning AMS unit (null for the external spool)
+	globalId: number; // Tray ID used in ams_mapping and tray_now: ams_id * 4 + tray_id, 254/255 for the external spool
+	empty: boolean;
+	type: string;
+	subBrand: string;
+	color: string; // "#RRGGBB" (empty string when unknown)
+	remainPercent: number | null; // null when the AMS cannot estimate it (-1)
+	weightGrams: number | null;
+	diameter: number | null;
+	nozzleTempMin: number | null;
+	nozzleTempMax: number | null;
+	presetId: string; // tray_info_idx, e.g. "GFA00"
+	tagUid: string;
+	rfid: boolean; // Spool was identified by its RFID tag
+	present: boolean | null; // Spool inserted (tray_exist_bits), null when not reported
+	bambuFilament: boolean | null; // Bambu Lab filament (tray_is_bbl_bits), null when not reported
+}
+
+/**
+ * One AMS tray or the external spool, flattened with the status of its AMS unit
+ */
+export interface AMSTrayOverview {
+	amsId: number | null; // AMS unit (null for the external spool)
+	slot: number | null; // Slot within the unit, 1-4 (null for the external spool)
+	trayId: number; // Global tray ID as used in ams_mapping and tray_now
+	active: boolean; // Currently loaded (tray_now)
+	empty: boolean;
+	present: boolean | null;
+	type: string;
+	subBrand: string;
+	color: string;
+	remainPercent: number | null;
+	weightGrams: number | null;
+	nozzleTempMin: number | null;
+	nozzleTempMax: number | null;
+	presetId: string;
+	rfid: boolean;
+	bambuFilament: boolean | null;
+	humidityLevel: number | null;
+	humidityPercent: number | null;
+	temperature: number | null;
+	drying: boolean; // AMS unit is drying (AMS 2 Pro / AMS HT)
+	dryingRemainingMinutes: number | null; // null for the external spool
+}
+
 // ===== Command Types =====
 
 export interface BaseCommand {
@@ -179,8 +313,8 @@ export interface BaseCommand {
 export interface PrintCommand extends BaseCommand {
 	print: {
 		sequence_id: string;
-		command: 'project_file' | 'pause' | 'resume' | 'stop';
-		param?: string;
+		command: 'project_file' | 'gcode_file' | 'pause' | 'resume' | 'stop';
+		param?: string; // Plate G-code path (project_file) or file path on the storage (gcode_file)
 		// Required fields for project_file command (local prints)
 		project_id?: string;
 		profile_id?: string;
@@ -203,6 +337,75 @@ export interface PrintCommand extends BaseCommand {
 	};
 }
 
+/**
+ * Skip objects of the running print
+ * Objects are identified by their identify_id from the .3mf file
+ */
+export interface SkipObjectsCommand extends BaseCommand {
+	print: {
+		sequence_id: string;
+		command: 'skip_objects';
+		obj_list: number[];
+	};
+}
+
+/**
+ * Set the filament information of an AMS tray or the external spool
+ */
+export interface AMSFilamentSettingCommand extends BaseCommand {
+	print: {
+		sequence_id: string;
+		command: 'ams_filament_setting';
+		ams_id: number; // AMS unit, 255 for the external spool
+		tray_id: number; // Tray within the unit, 254 for the external spool
+		tray_info_idx: string; // Filament preset, e.g. "GFL99" (Generic PLA)
+		tray_color: string; // "RRGGBBAA"
+		nozzle_temp_min: number;
+		nozzle_temp_max: number;
+		tray_type: string;
+	};
+}
+
+/**
+ * Change the loaded filament: unload the current filament and load the target tray
+ */
+export interface AMSChangeFilamentCommand extends BaseCommand {
+	print: {
+		sequence_id: string;
+		command: 'ams_change_filament';
+		target: number; // Global tray ID to load (254 for the external spool)
+		curr_temp: number; // Nozzle temperature for the current filament in °C
+		tar_temp: number; // Nozzle temperature for the target filament in °C
+	};
+}
+
+/**
+ * Unload the currently loaded filament
+ */
+export interface UnloadFilamentCommand extends BaseCommand {
+	print: {
+		sequence_id: string;
+		command: 'unload_filament';
+	};
+}
+
+/**
+ * Start (mode 1) or stop (mode 0) drying in an AMS 2 Pro or AMS HT
+ */
+export interface AMSFilamentDryingCommand extends BaseCommand {
+	print: {
+		sequence_id: string;
+		command: 'ams_filament_drying';
+		ams_id: number;
+		temp: number; // Drying temperature in °C
+		cooling_temp: number; // Temperature to cool down to after drying in °C
+		duration: number; // Drying time in hours
+		humidity: number; // Target humidity (0 = dry for the full duration)
+		mode: 0 | 1;
+		rotate_tray: boolean;
+	};
+}
+
 export interface SystemCommand extends BaseCommand {
 	system?: {
 		sequence_id: string;
@@ -231,14 +434,11 @@ export interface GcodeLineCommand extends BaseCommand {
 	};
 }
 
-// ===== Temperature Types =====
-
-export interface TemperatureData {
-	nozzle_temp: number;
-	nozzle_target_temp: number;
-	bed_temp: number;
-	bed_target_temp: number;
-	chamber_temp?: number;
+export interface InfoCommand extends BaseCommand {
+	info: {
+		sequence_id: string;
+		command: 'get_version';
+	};
 }
 
 // ===== Camera Types =====
@@ -286,8 +486,15 @@ export interface PrintJobOptions {
 	timelapse?: boolean;
 	useAMS?: boolean;
 	amsMapping?: string | number[]; // String from UI (comma-separated) or array when used programmatically
+	plate?: number | 'first'; // Plate number (1-indexed) or first sliced plate
 }
 
+/**
+ * Build plate type sent with the print command
+ * The printer uses it for its bed type mismatch detection; "auto" leaves it to the printer
+ */
+export type BedType = 'auto' | 'cool_plate' | 'eng_plate' | 'hot_plate' | 'textured_plate';
+
 // Subset of PrintJobOptions used for command generation (after UI string parsing)
 export interface PrintCommandOptions {
 	bedLeveling?: boolean;
@@ -297,6 +504,24 @@ export interface PrintCommandOptions {
 	timelapse?: boolean;
 	useAMS?: boolean;
 	amsMapping?: number[]; // Only number array for command generation
+	plate?: number; // Plate to print (1-indexed, default: 1)
+	md5?: string; // MD5 hash of the uploaded file, checked by the printer
+	bedType?: BedType; // Installed build plate (default: 'auto')
+}
+
+export interface TrayFilamentOptions {
+	type: string; // Filament type, e.g. "PLA"
+	color: string; // "#RRGGBB", "RRGGBB" or "RRGGBBAA"
+	presetId?: string; // tray_info_idx (default: generic preset of the type)
+	nozzleTempMin?: number; // default: typical range of the type
+	nozzleTempMax?: number;
+}
+
+export type DryingMaterial = 'PLA' | 'PETG' | 'TPU' | 'ABS' | 'ASA' | 'PA' | 'PC' | 'PVA';
+
+export interface DryingSettings {
+	temperature: number; // Drying temperature in °C
+	durationHours: number;
 }
 
 // ===== Version Info Types =====
@@ -318,23 +543,33 @@ export interface BambuLabError {
 // ===== MQTT Message Types =====
 
 export interface MQTTMessage {
-	print?: PrintInfo & { sequence_id?: string };
+	print?: PrintReport;
 	pushing?: { sequence_id?: string; command?: string; push_target?: number };
 	system?: { sequence_id?: string; command?: string };
 	gcode_line?: { sequence_id?: string; command?: string };
-	info?: Record<string, unknown>;
+	info?: InfoReport;
 	[key: string]: unknown;
 }
 
 // ===== Response Types =====
 
 // Union type for all command types
-export type AnyCommand = PrintCommand | SystemCommand | PushingCommand | GcodeLineCommand;
+export type AnyCommand =
+	| PrintCommand
+	| SkipObjectsCommand
+	| AMSFilamentSettingCommand
+	| AMSChangeFilamentCommand
+	| UnloadFilamentCommand
+	| AMSFilamentDryingCommand
+	| SystemCommand
+	| PushingCommand
+	| GcodeLineCommand
+	| InfoCommand;
 
 export interface CommandResponse {
 	success: boolean;
 	message: string;
-	data?: MQTTMessage | PrinterStatus | unknown;
+	data?: MQTTMessage | PrinterReport | unknown;
 	sequence_id?: string;
 }
 
@@ -376,6 +611,7 @@ export type GcodeState =
 	| 'PAUSE'
 	| 'FINISH'
 	| 'FAILED'
+	| 'SLICING'
 	| 'UNKNOWN';
 
 // ===== Lifecycle States =====
@@ -388,6 +624,58 @@ export type LEDMode = 'on' | 'off' | 'flashing';
 
 export type LEDNode = 'chamber_light' | 'work_light' | 'logo_led';
 
+// ===== Printer Model Types =====
+
+export type PrinterModelId = 'X1C' | 'X1' | 'X1E' | 'P1P' | 'P1S' | 'A1' | 'A1_MINI' | 'H2D' | 'UNKNOWN';
+
+/**
+ * How the chamber camera is accessed
+ * - rtsp: RTSP(S) video stream (X1 series, H2D)
+ * - jpeg-tls: JPEG frames over TLS on port 6000 (A1 and P1 series)
+ */
+export type CameraProtocol = 'rtsp' | 'jpeg-tls' | 'unknown';
+
+export interface PrinterModel {
+	id: PrinterModelId;
+	name: string; // Display name, e.g. "Bambu Lab A1 mini"
+	serialPrefixes: string[]; // First 3 characters of the serial number
+	slicerModelIds: string[]; // printer_model_id in sliced files, e.g. "C12"
+	storageRoot: string; // Path of the FTP root in print URLs, e.g. "/sdcard/"
+	cameraProtocol: CameraProtocol;
+	chamberHeating: boolean; // Actively heated chamber
+	nozzleCount: number;
+	maxAmsCount: number; // Maximum number of AMS units (4 trays each)
+}
+
+// ===== Trigger Event Types =====
+
+export type PrinterEventType =
+	| 'stateChange'
+	| 'printStarted'
+	| 'printFinished'
+	| 'printFailed'
+	| 'printPaused'
+	| 'hmsError';
+
+export interface PrinterEvent {
+	event: PrinterEventType;
+	state: GcodeState;
+	previousState?: GcodeState;
+	hmsErrors?: HMSEntry[];
+}
+
+// ===== Wait Types =====
+
+export type PrintWaitTarget =
+	| { type: 'state'; state: GcodeState }
+	| { type: 'progress'; percent: number }
+	| { type: 'layer'; layer: number };
+
+export interface PrintWaitOptions {
+	requirePrintActivity?: boolean; // Ignore conditions met before print activity was seen (default: true)
+	stopOnFailure?: boolean; // Throw when the print fails while waiting for another state (default: true)
+}
+
 // ===== Filament Profile Parsing Types =====
 
 export interface FilamentProfile {
@@ -395,8 +683,11 @@ export interface FilamentProfile {
 	type: string; // Filament type: "PLA", "PETG", "TPU", etc.
 	colour: string; // Hex color "#515151" or color name
 	name: string; // Full profile name from slicer
-	slotNumber: number; // AMS slot number (1-indexed, from gcode)
-	trayId: number; // AMS tray ID (0-indexed, for ams_mapping)
+	presetId: string; // Bambu filament preset ID from filament_ids, e.g. "GFA00" (empty string when unknown)
+	usedGrams: number | null; // Filament needed for the plate in grams (null when the file has no usage data)
+	usedMm: number | null; // Filament needed for the plate in millimeters (null when unknown)
+	slotNumber: number; // AMS slot number (1-indexed across all AMS units, from gcode)
+	trayId: number; // Global AMS tray ID (0-indexed, ams_id * 4 + tray_id, for ams_mapping)
 }
 
 export interface ParsedFilamentData {
@@ -405,19 +696,121 @@ export interface ParsedFilamentData {
 	totalEmbedded: number; // Total profiles embedded in .3mf file
 }
 
+// ===== 3MF Project Types =====
+
+export interface ThreeMfPlateFilament {
+	slot: number; // AMS slot number the plate was sliced with (1-indexed)
+	type: string;
+	color: string;
+	presetId: string; // Bambu filament preset ID, e.g. "GFA00" (empty string when unknown)
+	usedMeters: number | null;
+	usedGrams: number | null;
+}
+
+export interface ThreeMfPlateObject {
+	identifyId: number | null; // Object identifier used by skip_objects
+	objectId: number | null; // Object id in model_settings.config
+	name: string;
+}
+
+export interface ThreeMfPlateInfo {
+	plate: number; // Plate number (1-indexed)
+	name: string | null; // Plate name set in Bambu Studio
+	sliced: boolean; // Whether the plate contains sliced G-code
+	hasThumbnail: boolean; // Whether the file contains a thumbnail of the plate
+	estimatedTimeSeconds: number | null; // Slicer print time estimate
+	weightGrams: number | null; // Total filament weight
+	nozzleDiameter: number | null; // Nozzle diameter the plate was sliced for (mm)
+	bedType: string | null; // Plate-specific bed type (e.g. "textured_plate"), null when the project default is used
+	slicerModelId: string | null; // printer_model_id, e.g. "C12"
+	filaments: ThreeMfPlateFilament[];
+	objects: ThreeMfPlateObject[];
+}
+
+export interface ThreeMfProjectInfo {
+	slicerVersion: string | null; // Bambu Studio version that sliced the file
+	printerModel: string | null; // Printer the project was sliced for, e.g. "Bambu Lab P1S"
+	printerModelId: PrinterModelId | null; // Registry id of that printer, null if not recognized
+	printerSettingsId: string | null; // Printer preset, e.g. "Bambu Lab P1S 0.4 nozzle"
+	nozzleDiameter: number | null; // mm
+	bedType: string | null; // curr_bed_type, e.g. "Textured PEI Plate"
+	layerHeight: number | null; // mm
+	plates: ThreeMfPlateInfo[];
+}
+
+// ===== Pre-flight Check Types =====
+
+export type PreflightCheckName = 'printerModel' | 'nozzleDiameter' | 'bedType' | 'printerState';
+
+export interface PreflightCheck {
+	name: PreflightCheckName;
+	passed: boolean | null; // null when the check was skipped because information is missing
+	expected: string | null; // Value required by the file
+	actual: string | null; // Value reported by the printer
+	message: string;
+}
+
+export interface PreflightResult {
+	passed: boolean; // No check failed (skipped checks do not fail)
+	checks: PreflightCheck[];
+	reasons: string[]; // Messages of the failed checks
+}
+
 // ===== Filament Matching Types =====
 
+/**
+ * How filament colors are compared
+ * - exact: hex colors must be identical
+ * - tolerant: colors match when their CIEDE2000 difference is within the tolerance
+ */
+export type ColorMatchMode = 'exact' | 'tolerant';
+
+export type FilamentMatchQuality = 'exact' | 'close';
+
+/**
+ * How filament types are compared during filament matching
+ * - exact: types must be identical (ignoring case and separators)
+ * - equivalent: types of the same family also match (e.g. PLA and PLA Matte)
+ */
+export type FilamentTypeMatchMode = 'exact' | 'equivalent';
+
+/**
+ * What to do when a matched tray does not hold enough filament for the print
+ * - off: no check
+ * - warn: add a warning to the match result
+ * - fail: throw an error
+ */
+export type FilamentSufficiencyMode = 'off' | 'warn' | 'fail';
+
+export interface FilamentMatchOptions {
+	colorMode?: ColorMatchMode; // Default: 'exact'
+	colorTolerance?: number; // Maximum ΔE00 in tolerant mode (default: FILAMENT_MATCHING.DEFAULT_COLOR_TOLERANCE)
+	typeMode?: FilamentTypeMatchMode; // Default: 'equivalent'
+	typeEquivalences?: Record<string, string[]>; // Type families that replace or extend FILAMENT_MATCHING.TYPE_EQUIVALENCES
+	sufficiencyMode?: FilamentSufficiencyMode; // Default: 'warn'
+	unmatchedMode?: 'fail' | 'warn'; // Default: 'fail'; 'warn' maps unmatched profiles to -1 and reports them in warnings
+}
+
 export interface MatchedFilamentProfile extends FilamentProfile {
-	matchedSlot: number; // Current physical slot where filament is loaded (1-4)
-	matchedTrayId: number; // Current tray ID (0-indexed, for ams_mapping)
-	matchQuality: 'exact'; // Always exact for strict matching mode
+	matchedSlot: number; // Current slot where filament is loaded (1-indexed across all AMS units, 0 for the external spool)
+	matchedTrayId: number; // Current global tray ID (for ams_mapping, 254 for the external spool)
+	matchedAmsId: number | null; // AMS unit of the matched tray (null for the external spool)
+	matchQuality: FilamentMatchQuality; // 'close' when matched within the color tolerance
+	colorDistance: number; // CIEDE2000 difference between profile and tray color (0 for exact matches)
+	typeMatch: FilamentTypeMatchMode; // 'equivalent' when the tray type is a different type of the same family
+	presetMatch: boolean; // Profile and tray report the same filament preset ID
 	currentColor: string; // Actual color currently in AMS slot
 	currentType: string; // Actual type currently in AMS slot
+	currentPresetId: string; // Filament preset ID of the tray (tray_info_idx)
+	remainingGrams: number | null; // Estimated filament left on the tray (null when the AMS cannot estimate it)
+	sufficient: boolean | null; // Whether the tray holds enough filament for all profiles using it (null when unknown)
 }
 
 export interface FilamentMatchResult {
 	mapping: number[]; // Final ams_mapping array to use for print command
 	matches: MatchedFilamentProfile[]; // Detailed match info for each profile
 	amsDetected: boolean; // Whether AMS is present on printer
-	totalSlots: number; // Total number of AMS slots available
+	traysDetected: boolean; // Whether any loaded AMS tray or external spool was found
+	totalSlots: number; // Total number of loaded trays available
+	warnings: string[]; // Filament sufficiency warnings (sufficiency mode 'warn')
 }
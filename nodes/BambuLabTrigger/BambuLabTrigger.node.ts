@@ -0,0 +1,214 @@
+import type {
+	IDataObject,
+	INodeType,
+	INodeTypeDescription,
+	ITriggerFunctions,
+	ITriggerResponse,
+} from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+
+import { BambuLabMqttClient } from '../BambuLab/helpers/MqttHelper';
+import { BambuLabCommands } from '../BambuLab/helpers/commands';
+import { PrinterEventDetector } from '../BambuLab/helpers/PrinterEventDetector';
+import { PrinterStatusParser } from '../BambuLab/helpers/PrinterStatusParser';
+import { INTERVALS, RETRY_CONFIG } from '../BambuLab/helpers/constants';
+import type {
+	BambuLabCredentials,
+	PrinterEvent,
+	PrinterEventType,
+	PrinterReport,
+	PrinterStatus,
+} from '../BambuLab/helpers/types';
+
+export class BambuLabTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Bambu Lab Trigger',
+		name: 'bambuLabTrigger',
+		icon: 'file:bambulab.png',
+		group: ['trigger'],
+		version: 1,
+		subtitle: '={{$parameter["events"].join(", ")}}',
+		description: 'Starts the workflow when a Bambu Lab printer reports an event',
+		defaults: {
+			name: 'Bambu Lab Trigger',
+		},
+		inputs: [],
+		outputs: ['main'],
+		credentials: [
+			{
+				name: 'bambuLabApi',
+				required: true,
+			},
+		],
+		properties: [
+			{
+				displayName: 'Events',
+				name: 'events',
+				type: 'multiOptions',
+				required: true,
+				options: [
+					{
+						name: 'HMS Error',
+						value: 'hmsError',
+						description: 'A new HMS (health management system) error was reported',
+					},
+					{
+						name: 'Print Failed',
+						value: 'printFailed',
+						description: 'The print state changed to FAILED',
+					},
+					{
+						name: 'Print Finished',
+						value: 'printFinished',
+						description: 'The print state changed to FINISH',
+					},
+					{
+						name: 'Print Paused',
+						value: 'printPaused',
+						description: 'The print state changed to PAUSE',
+					},
+					{
+						name: 'Print Started',
+						value: 'printStarted',
+						description: 'A new print started (PREPARE or RUNNING after IDLE, FINISH or FAILED)',
+					},
+					{
+						name: 'State Change',
+						value: 'stateChange',
+						description: 'Any change of the printer gcode_state',
+					},
+				],
+				default: ['printFinished', 'printFailed'],
+				description: 'The events to listen for',
+			},
+			{
+				displayName: 'Options',
+				name: 'options',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				options: [
+					{
+						displayName: 'Include Raw Report',
+						name: 'includeRawReport',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to include the raw MQTT report that produced the event in the output',
+					},
+				],
+			},
+		],
+	};
+
+	async trigger(this: ITriggerFunctions): Promise<ITriggerResponse> {
+		const credentials = (await this.getCredentials('bambuLabApi')) as unknown as BambuLabCredentials;
+		const events = this.getNodeParameter('events', []) as PrinterEventType[];
+		const options = this.getNodeParameter('options', {}) as IDataObject;
+		const includeRawReport = (options.includeRawReport as boolean) ?? false;
+
+		if (events.length === 0) {
+			throw new NodeOperationError(this.getNode(), 'Please select at least one event');
+		}
+
+		const mqttClient = new BambuLabMqttClient(credentials);
+		const commands = new BambuLabCommands();
+		const detector = new PrinterEventDetector();
+
+		let closed = false;
+		let reconnectTimer: NodeJS.Timeout | null = null;
+		let reconnectAttempt = 0;
+
+		// Request a full report so the detector has a baseline state
+		const requestFullStatus = async () => {
+			try {
+				await mqttClient.publishCommand(commands.getPushAll());
+			} catch (error) {
+				this.logger.warn(`Bambu Lab Trigger: pushall request failed: ${(error as Error).message}`);
+			}
+		};
+
+		const emitEvent = (event: PrinterEvent, status: PrinterStatus, report: PrinterReport) => {
+			const data: IDataObject = {
+				...event,
+				serialNumber: credentials.serialNumber,
+				timestamp: new Date().toISOString(),
+				progress: status.progress as unknown as IDataObject,
+			};
+			if (includeRawReport) {
+				data.report = report as unknown as IDataObject;
+			}
+			this.emit([this.helpers.returnJsonArray([data])]);
+		};
+
+		// Reconnect with exponential backoff until it succeeds or the trigger is closed
+		const scheduleReconnect = () => {
+			if (closed || reconnectTimer) {
+				return;
+			}
+
+			const delay = Math.min(
+				INTERVALS.TRIGGER_RECONNECT_INITIAL *
+					Math.pow(RETRY_CONFIG.BACKOFF_MULTIPLIER, reconnectAttempt),
+				INTERVALS.TRIGGER_RECONNECT_MAX,
+			);
+			reconnectAttempt++;
+
+			reconnectTimer = setTimeout(async () => {
+				reconnectTimer = null;
+				if (closed) {
+					return;
+				}
+
+				try {
+					mqttClient.forceDisconnect();
+					await mqttClient.connect();
+					reconnectAttempt = 0;
+					this.logger.info('Bambu Lab Trigger: reconnected to printer');
+					await requestFullStatus();
+				} catch (error) {
+					this.logger.warn(
+						`Bambu Lab Trigger: reconnect attempt ${reconnectAttempt} failed: ${(error as Error).message}`,
+					);
+					scheduleReconnect();
+				}
+			}, delay);
+		};
+
+		mqttClient.onConnectionLost((error) => {
+			if (closed) {
+				return;
+			}
+			this.logger.warn(
+				`Bambu Lab Trigger: connection to printer lost${error ? `: ${error.message}` : ''}`,
+			);
+			scheduleReconnect();
+		});
+
+		await mqttClient.connect();
+
+		// Reports are deltas - evaluate events against the merged snapshot
+		mqttClient.subscribeToUpdates((report) => {
+			const status = PrinterStatusParser.parse(mqttClient.getStateStore().getSnapshot());
+			for (const event of detector.process(status)) {
+				if (events.includes(event.event)) {
+					emitEvent(event, status, report);
+				}
+			}
+		});
+
+		await requestFullStatus();
+
+		const closeFunction = async () => {
+			closed = true;
+			if (reconnectTimer) {
+				clearTimeout(reconnectTimer);
+				reconnectTimer = null;
+			}
+			await mqttClient.disconnect();
+		};
+
+		return {
+			closeFunction,
+		};
+	}
+}